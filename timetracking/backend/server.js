@@ -1,10 +1,28 @@
 import cors from "cors";
 import dotenv from "dotenv";
 import express from "express";
-import { calculateTimeMetrics, batchCalculateTimeMetrics } from "./timeCalculator.js";
+import { applicationDefault, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { calculateTimeMetrics, explainTimeMetrics, batchCalculateTimeMetrics, calculateDailyMetrics, calculateGrossPay, calculateWeeklyOvertime, classifyScheduleDays } from "../functions/lib/shared/timeCalculator.js";
+import { calculateStoredSession, SessionCalculationError } from "../functions/sessionCalculation.cjs";
+import { rebuildStoredSummaries, requireAdmin, requireUser } from "../functions/summaryRebuild.cjs";
 
 dotenv.config();
 
+// Admin SDK for the endpoints that read and write Firestore, initialised on
+// first use so the calculation endpoints run without credentials; credentials
+// come from GOOGLE_APPLICATION_CREDENTIALS
+let adminServices = null;
+
+function getAdminServices() {
+  if (!adminServices) {
+    initializeApp({ credential: applicationDefault() });
+    adminServices = { auth: getAuth(), db: getFirestore() };
+  }
+  return adminServices;
+}
+
 const app = express();
 
 app.use(cors());
@@ -25,13 +43,26 @@ app.get("/", (req, res) => {
  *   "schedule": {
  *     "start": "09:00",
  *     "end": "18:00",
- *     "timezone": "America/New_York"
- *   }
+ *     "timezone": "America/New_York",
+ *     "breaks": [
+ *       { "type": "fixed", "start": "12:00", "end": "13:00" }
+ *     ],
+ *     "grace": { "lateMinutes": 10, "undertimeMinutes": 5, "mode": "full" }
+ *   },
+ *   "policy": {
+ *     "rounding": {
+ *       "punchIn": { "interval": 15, "direction": "up" },
+ *       "punchOut": { "interval": 15, "direction": "down" }
+ *     },
+ *     "nightDifferential": { "startHour": 22, "endHour": 6 },
+ *     "overtime": { "minimumMinutes": 30, "requireApproval": true }
+ *   },
+ *   "approvedOvertimeMinutes": 60
  * }
  */
 app.post("/api/calculate-time", (req, res) => {
   try {
-    const { punchIn, punchOut, schedule } = req.body;
+    const { punchIn, punchOut, schedule, policy, approvedOvertimeMinutes } = req.body;
 
     console.log('=== Time Calculation Request ===');
     console.log('Punch In:', punchIn);
@@ -51,8 +82,9 @@ app.post("/api/calculate-time", (req, res) => {
     }
 
     const metrics = calculateTimeMetrics(
-      { punchIn, punchOut },
-      schedule
+      { punchIn, punchOut, approvedOvertimeMinutes },
+      schedule,
+      policy
     );
 
     console.log('Calculated Metrics:', metrics);
@@ -70,6 +102,55 @@ app.post("/api/calculate-time", (req, res) => {
   }
 });
 
+/**
+ * POST /api/calculate-time/explain
+ * Calculate time metrics for a single attendance record along with the trace
+ * behind them: resolved shift boundaries, rounding and grace applied, night
+ * differential intervals and the rule that produced each stretch of the session
+ *
+ * Body: same as POST /api/calculate-time
+ * {
+ *   "punchIn": "2025-09-30T09:15:00Z",
+ *   "punchOut": "2025-09-30T19:30:00Z",
+ *   "schedule": { "start": "09:00", "end": "18:00", "timezone": "America/New_York" },
+ *   "policy": { "rounding": { "punchIn": { "interval": 15, "direction": "up" } } },
+ *   "approvedOvertimeMinutes": 60
+ * }
+ */
+app.post("/api/calculate-time/explain", (req, res) => {
+  try {
+    const { punchIn, punchOut, schedule, policy, approvedOvertimeMinutes } = req.body;
+
+    if (!punchIn || !punchOut) {
+      return res.status(400).json({
+        error: "Missing required fields: punchIn and punchOut are required"
+      });
+    }
+
+    if (!schedule || !schedule.start || !schedule.end) {
+      return res.status(400).json({
+        error: "Missing schedule information: start and end times are required"
+      });
+    }
+
+    const trace = explainTimeMetrics(
+      { punchIn, punchOut, approvedOvertimeMinutes },
+      schedule,
+      policy
+    );
+
+    res.json({
+      success: true,
+      data: trace
+    });
+  } catch (error) {
+    console.error('Explanation Error:', error);
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
 /**
  * POST /api/calculate-time-batch
  * Calculate time metrics for multiple attendance records
@@ -87,12 +168,13 @@ app.post("/api/calculate-time", (req, res) => {
  *     "start": "09:00",
  *     "end": "18:00",
  *     "timezone": "America/New_York"
- *   }
+ *   },
+ *   "policy": { ... }
  * }
  */
 app.post("/api/calculate-time-batch", (req, res) => {
   try {
-    const { attendanceRecords, schedule } = req.body;
+    const { attendanceRecords, schedule, policy } = req.body;
 
     if (!attendanceRecords || !Array.isArray(attendanceRecords)) {
       return res.status(400).json({
@@ -106,7 +188,7 @@ app.post("/api/calculate-time-batch", (req, res) => {
       });
     }
 
-    const results = batchCalculateTimeMetrics(attendanceRecords, schedule);
+    const results = batchCalculateTimeMetrics(attendanceRecords, schedule, policy);
 
     res.json({
       success: true,
@@ -119,6 +201,255 @@ app.post("/api/calculate-time-batch", (req, res) => {
   }
 });
 
+/**
+ * POST /api/calculate-daily
+ * Calculate day-level metrics from all of a user's sessions on one business date
+ *
+ * Body:
+ * {
+ *   "sessions": [
+ *     { "punchIn": "2025-10-06T01:00:00Z", "punchOut": "2025-10-06T04:00:00Z" },
+ *     { "punchIn": "2025-10-06T05:00:00Z", "punchOut": "2025-10-06T10:00:00Z" }
+ *   ],
+ *   "schedule": {
+ *     "start": "09:00",
+ *     "end": "18:00",
+ *     "timezone": "Asia/Manila"
+ *   },
+ *   "policy": { ... },
+ *   "approvedOvertimeMinutes": 60
+ * }
+ */
+app.post("/api/calculate-daily", (req, res) => {
+  try {
+    const { sessions, schedule, policy, approvedOvertimeMinutes } = req.body;
+
+    if (!Array.isArray(sessions) || sessions.length === 0) {
+      return res.status(400).json({
+        error: "sessions must be a non-empty array"
+      });
+    }
+
+    if (!schedule || !schedule.start || !schedule.end) {
+      return res.status(400).json({
+        error: "Missing schedule information: start and end times are required"
+      });
+    }
+
+    const daily = calculateDailyMetrics(sessions, schedule, policy, approvedOvertimeMinutes);
+
+    res.json({
+      success: true,
+      data: daily
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/sessions/:sessionId/calculate
+ * Calculate a closed session stored in Firestore with its employee's saved
+ * schedule, overtime policy, holidays and approved overtime, save the metrics
+ * on it and rebuild the employee's daily summaries for the weeks it touches.
+ * Employees never write metrics or summaries themselves: the punch clock closes
+ * the session and calls this. Send the signed-in user's Firebase ID token; only
+ * the session's employee or an admin may calculate it.
+ *
+ * Headers:
+ *   Authorization: Bearer <Firebase ID token>
+ */
+app.post("/api/sessions/:sessionId/calculate", requireUser(getAdminServices), async (req, res) => {
+  try {
+    const { db } = getAdminServices();
+    const metrics = await calculateStoredSession(db, req.params.sessionId, req.user);
+
+    res.json({
+      success: true,
+      data: metrics
+    });
+  } catch (error) {
+    console.error('Session Calculation Error:', error);
+    res.status(error instanceof SessionCalculationError ? error.status : 500).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/rebuild-summaries
+ * Rebuild the daily summaries stored in Firestore for an employee, a date range
+ * or both, purely from the completed sessions, and report what changed. The
+ * server reads the sessions, summaries, employees, holidays and overtime
+ * approvals itself and saves the result. Admins only: send the signed-in
+ * admin's Firebase ID token. Send whole Sunday-Saturday weeks so weekly
+ * overtime is reclassified correctly.
+ *
+ * Headers:
+ *   Authorization: Bearer <Firebase ID token>
+ *
+ * Body:
+ * {
+ *   "userId": "u1",                     // Optional, every employee when left out
+ *   "startDate": "2025-10-05",          // Optional
+ *   "endDate": "2025-10-11",            // Optional
+ *   "schedule": { "start": "09:00", "end": "18:00", "timezone": "Asia/Manila" },
+ *   "policy": { "overtime": { "minimumMinutes": 30 } }
+ * }
+ */
+app.post("/api/rebuild-summaries", requireAdmin(getAdminServices), async (req, res) => {
+  try {
+    const { userId, startDate, endDate, schedule, policy } = req.body;
+
+    if (!schedule || !schedule.start || !schedule.end) {
+      return res.status(400).json({
+        error: "Missing schedule information: start and end times are required"
+      });
+    }
+
+    const { db } = getAdminServices();
+    const report = await rebuildStoredSummaries(db, { userId, startDate, endDate }, schedule, policy);
+
+    console.log('Summary Rebuild:', report.created, 'created,', report.updated, 'updated,', report.deleted, 'deleted');
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Summary Rebuild Error:', error);
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/calculate-pay
+ * Turn a set of time metrics into gross pay line items
+ *
+ * Body:
+ * {
+ *   "metrics": [
+ *     { "regularMinutes": 480, "overtimeMinutes": 60, "nightDiffMinutes": 0 }
+ *   ],
+ *   "payRate": { "type": "daily", "amount": 800, "hoursPerDay": 8, "currency": "PHP" },
+ *   "multipliers": { "overtime": 1.25, "overtimeNightDiff": 1.375 }
+ * }
+ */
+app.post("/api/calculate-pay", (req, res) => {
+  try {
+    const { metrics, payRate, multipliers } = req.body;
+
+    if (!Array.isArray(metrics)) {
+      return res.status(400).json({
+        error: "metrics must be an array"
+      });
+    }
+
+    if (!payRate) {
+      return res.status(400).json({
+        error: "Missing required field: payRate"
+      });
+    }
+
+    const pay = calculateGrossPay(metrics, payRate, multipliers);
+
+    res.json({
+      success: true,
+      data: pay
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/calculate-weekly-overtime
+ * Reclassify a workweek's hours as regular or overtime against a weekly threshold
+ *
+ * Body:
+ * {
+ *   "days": [
+ *     { "date": "2025-10-06", "totalWorkedMinutes": 600 },
+ *     { "date": "2025-10-07", "totalWorkedMinutes": 540 }
+ *   ],
+ *   "thresholdMinutes": 2400
+ * }
+ */
+app.post("/api/calculate-weekly-overtime", (req, res) => {
+  try {
+    const { days, thresholdMinutes } = req.body;
+
+    if (!Array.isArray(days)) {
+      return res.status(400).json({
+        error: "days must be an array"
+      });
+    }
+
+    const week = calculateWeeklyOvertime(days, thresholdMinutes);
+
+    res.json({
+      success: true,
+      data: week
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/classify-days
+ * Classify each day in a date range as present, absent, rest day or rest-day work
+ *
+ * Body:
+ * {
+ *   "startDate": "2025-10-06",
+ *   "endDate": "2025-10-12",
+ *   "workedDates": ["2025-10-06", "2025-10-07"],
+ *   "schedule": {
+ *     "start": "09:00",
+ *     "end": "18:00",
+ *     "timezone": "Asia/Manila",
+ *     "weekly": { "saturday": { "restDay": true }, "sunday": { "restDay": true } }
+ *   }
+ * }
+ */
+app.post("/api/classify-days", (req, res) => {
+  try {
+    const { startDate, endDate, workedDates = [], schedule } = req.body;
+
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: "Missing required fields: startDate and endDate are required"
+      });
+    }
+
+    if (!schedule || !schedule.start || !schedule.end) {
+      return res.status(400).json({
+        error: "Missing schedule information: start and end times are required"
+      });
+    }
+
+    const days = classifyScheduleDays(schedule, startDate, endDate, workedDates);
+
+    res.json({
+      success: true,
+      data: days
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
 /**
  * GET /api/health
  * Health check endpoint
@@ -1,7 +1,32 @@
 const { onRequest } = require("firebase-functions/v2/https");
+const { initializeApp } = require("firebase-admin/app");
+const { getAuth } = require("firebase-admin/auth");
+const { getFirestore } = require("firebase-admin/firestore");
 const cors = require("cors");
 const express = require("express");
-const moment = require('moment-timezone');
+const {
+  calculateTimeMetrics,
+  explainTimeMetrics,
+  batchCalculateTimeMetrics,
+  calculateDailyMetrics,
+  calculateGrossPay,
+  calculateWeeklyOvertime,
+  classifyScheduleDays
+} = require("./lib/shared/timeCalculator.js");
+const { calculateStoredSession, SessionCalculationError } = require("./sessionCalculation.cjs");
+const { rebuildStoredSummaries, requireAdmin, requireUser } = require("./summaryRebuild.cjs");
+
+// Admin SDK for the endpoints that read and write Firestore, initialised on
+// first use so the calculation endpoints do not wait on it
+let adminServices = null;
+
+function getAdminServices() {
+  if (!adminServices) {
+    initializeApp();
+    adminServices = { auth: getAuth(), db: getFirestore() };
+  }
+  return adminServices;
+}
 
 const app = express();
 
@@ -13,162 +38,13 @@ app.get("/", (req, res) => {
   res.send("HCM Time Tracking API is running");
 });
 
-/**
- * Calculate all time metrics for an attendance record
- */
-function calculateTimeMetrics(attendance, schedule) {
-  const { punchIn, punchOut } = attendance;
-  const { start, end, timezone = 'UTC' } = schedule;
-
-  if (!punchIn || !punchOut) {
-    throw new Error('Both punchIn and punchOut are required');
-  }
-
-  // Convert to moment objects in the specified timezone
-  const punchInTime = moment(punchIn).tz(timezone);
-  const punchOutTime = moment(punchOut).tz(timezone);
-
-  // Get scheduled shift times for the punch-in date in the specified timezone
-  const shiftStart = getScheduledTime(punchInTime, start, timezone);
-  const shiftEnd = getScheduledTime(punchInTime, end, timezone);
-
-  // Calculate late time (minutes after shift start)
-  const lateMinutes = calculateLate(punchInTime, shiftStart);
-
-  // Calculate undertime (minutes before shift end)
-  const undertimeMinutes = calculateUndertime(punchOutTime, shiftEnd);
-
-  // Calculate actual work hours using moment
-  const totalWorkedMinutes = punchOutTime.diff(punchInTime, 'minutes');
-
-  // Calculate scheduled shift duration
-  const scheduledMinutes = shiftEnd.diff(shiftStart, 'minutes');
-
-  // Calculate regular hours (up to scheduled shift, minus late and undertime)
-  const regularMinutes = calculateRegularHours(
-    punchInTime,
-    punchOutTime,
-    shiftStart,
-    shiftEnd,
-    scheduledMinutes
-  );
-
-  // Calculate overtime (work beyond scheduled shift)
-  const overtimeMinutes = calculateOvertime(
-    punchInTime,
-    punchOutTime,
-    shiftEnd,
-    totalWorkedMinutes,
-    scheduledMinutes
-  );
-
-  // Calculate night differential (work between 22:00-06:00)
-  const nightDiffMinutes = calculateNightDifferential(punchInTime, punchOutTime);
-
-  return {
-    totalWorkedHours: (totalWorkedMinutes / 60).toFixed(2),
-    totalWorkedMinutes,
-    regularHours: (regularMinutes / 60).toFixed(2),
-    regularMinutes,
-    overtimeHours: (overtimeMinutes / 60).toFixed(2),
-    overtimeMinutes,
-    nightDiffHours: (nightDiffMinutes / 60).toFixed(2),
-    nightDiffMinutes,
-    lateMinutes,
-    undertimeMinutes,
-    punchInTime: punchInTime.toISOString(),
-    punchOutTime: punchOutTime.toISOString(),
-    shiftStart: shiftStart.toISOString(),
-    shiftEnd: shiftEnd.toISOString(),
-  };
-}
-
-function getScheduledTime(dateMoment, timeString, timezone) {
-  const [hours, minutes] = timeString.split(':').map(Number);
-  const scheduledTime = dateMoment.clone()
-    .hour(hours)
-    .minute(minutes)
-    .second(0)
-    .millisecond(0);
-  return scheduledTime;
-}
-
-function calculateLate(punchIn, shiftStart) {
-  if (punchIn.isSameOrBefore(shiftStart)) {
-    return 0;
-  }
-  return punchIn.diff(shiftStart, 'minutes');
-}
-
-function calculateUndertime(punchOut, shiftEnd) {
-  if (punchOut.isSameOrAfter(shiftEnd)) {
-    return 0;
-  }
-  return shiftEnd.diff(punchOut, 'minutes');
-}
-
-function calculateRegularHours(punchIn, punchOut, shiftStart, shiftEnd, scheduledMinutes) {
-  const effectiveStart = punchIn.isAfter(shiftStart) ? punchIn : shiftStart;
-  const effectiveEnd = punchOut.isBefore(shiftEnd) ? punchOut : shiftEnd;
-
-  if (effectiveEnd.isSameOrBefore(effectiveStart)) {
-    return 0;
-  }
-
-  const regularMinutes = effectiveEnd.diff(effectiveStart, 'minutes');
-  return Math.min(regularMinutes, scheduledMinutes);
-}
-
-function calculateOvertime(punchIn, punchOut, shiftEnd, totalWorkedMinutes, scheduledMinutes) {
-  if (punchOut.isSameOrBefore(shiftEnd)) {
-    return 0;
-  }
-  const overtimeMinutes = punchOut.diff(shiftEnd, 'minutes');
-  return overtimeMinutes;
-}
-
-function calculateNightDifferential(punchIn, punchOut) {
-  let nightMinutes = 0;
-  let currentTime = punchIn.clone();
-  const endTime = punchOut.clone();
-
-  while (currentTime.isBefore(endTime)) {
-    const hour = currentTime.hour();
-    if (hour >= 22 || hour < 6) {
-      nightMinutes++;
-    }
-    currentTime.add(1, 'minute');
-  }
-
-  return nightMinutes;
-}
-
-function batchCalculateTimeMetrics(attendanceRecords, userSchedule) {
-  return attendanceRecords.map(record => {
-    try {
-      const metrics = calculateTimeMetrics(record, userSchedule);
-      return {
-        ...record,
-        metrics,
-        calculationError: null
-      };
-    } catch (error) {
-      return {
-        ...record,
-        metrics: null,
-        calculationError: error.message
-      };
-    }
-  });
-}
-
 /**
  * POST /api/calculate-time
  * Calculate time metrics for a single attendance record
  */
 app.post("/api/calculate-time", (req, res) => {
   try {
-    const { punchIn, punchOut, schedule } = req.body;
+    const { punchIn, punchOut, schedule, policy, approvedOvertimeMinutes } = req.body;
 
     console.log('=== Time Calculation Request ===');
     console.log('Punch In:', punchIn);
@@ -188,8 +64,9 @@ app.post("/api/calculate-time", (req, res) => {
     }
 
     const metrics = calculateTimeMetrics(
-      { punchIn, punchOut },
-      schedule
+      { punchIn, punchOut, approvedOvertimeMinutes },
+      schedule,
+      policy
     );
 
     console.log('Calculated Metrics:', metrics);
@@ -207,13 +84,51 @@ app.post("/api/calculate-time", (req, res) => {
   }
 });
 
+/**
+ * POST /api/calculate-time/explain
+ * Calculate time metrics for a single attendance record with the trace behind them
+ */
+app.post("/api/calculate-time/explain", (req, res) => {
+  try {
+    const { punchIn, punchOut, schedule, policy, approvedOvertimeMinutes } = req.body;
+
+    if (!punchIn || !punchOut) {
+      return res.status(400).json({
+        error: "Missing required fields: punchIn and punchOut are required"
+      });
+    }
+
+    if (!schedule || !schedule.start || !schedule.end) {
+      return res.status(400).json({
+        error: "Missing schedule information: start and end times are required"
+      });
+    }
+
+    const trace = explainTimeMetrics(
+      { punchIn, punchOut, approvedOvertimeMinutes },
+      schedule,
+      policy
+    );
+
+    res.json({
+      success: true,
+      data: trace
+    });
+  } catch (error) {
+    console.error('Explanation Error:', error);
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
 /**
  * POST /api/calculate-time-batch
  * Calculate time metrics for multiple attendance records
  */
 app.post("/api/calculate-time-batch", (req, res) => {
   try {
-    const { attendanceRecords, schedule } = req.body;
+    const { attendanceRecords, schedule, policy } = req.body;
 
     if (!attendanceRecords || !Array.isArray(attendanceRecords)) {
       return res.status(400).json({
@@ -227,7 +142,7 @@ app.post("/api/calculate-time-batch", (req, res) => {
       });
     }
 
-    const results = batchCalculateTimeMetrics(attendanceRecords, schedule);
+    const results = batchCalculateTimeMetrics(attendanceRecords, schedule, policy);
 
     res.json({
       success: true,
@@ -240,6 +155,187 @@ app.post("/api/calculate-time-batch", (req, res) => {
   }
 });
 
+/**
+ * POST /api/calculate-daily
+ * Calculate day-level metrics from all of a user's sessions on one business date
+ */
+app.post("/api/calculate-daily", (req, res) => {
+  try {
+    const { sessions, schedule, policy, approvedOvertimeMinutes } = req.body;
+
+    if (!Array.isArray(sessions) || sessions.length === 0) {
+      return res.status(400).json({
+        error: "sessions must be a non-empty array"
+      });
+    }
+
+    if (!schedule || !schedule.start || !schedule.end) {
+      return res.status(400).json({
+        error: "Missing schedule information: start and end times are required"
+      });
+    }
+
+    const daily = calculateDailyMetrics(sessions, schedule, policy, approvedOvertimeMinutes);
+
+    res.json({
+      success: true,
+      data: daily
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/sessions/:sessionId/calculate
+ * Calculate a closed session stored in Firestore, save its metrics and rebuild
+ * the daily summaries it touches. The session's employee or an admin only
+ * (Authorization: Bearer <Firebase ID token>).
+ */
+app.post("/api/sessions/:sessionId/calculate", requireUser(getAdminServices), async (req, res) => {
+  try {
+    const { db } = getAdminServices();
+    const metrics = await calculateStoredSession(db, req.params.sessionId, req.user);
+
+    res.json({
+      success: true,
+      data: metrics
+    });
+  } catch (error) {
+    console.error('Session Calculation Error:', error);
+    res.status(error instanceof SessionCalculationError ? error.status : 500).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/rebuild-summaries
+ * Rebuild the daily summaries stored in Firestore from completed sessions and
+ * report what changed. Admins only (Authorization: Bearer <Firebase ID token>).
+ */
+app.post("/api/rebuild-summaries", requireAdmin(getAdminServices), async (req, res) => {
+  try {
+    const { userId, startDate, endDate, schedule, policy } = req.body;
+
+    if (!schedule || !schedule.start || !schedule.end) {
+      return res.status(400).json({
+        error: "Missing schedule information: start and end times are required"
+      });
+    }
+
+    const { db } = getAdminServices();
+    const report = await rebuildStoredSummaries(db, { userId, startDate, endDate }, schedule, policy);
+
+    console.log('Summary Rebuild:', report.created, 'created,', report.updated, 'updated,', report.deleted, 'deleted');
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Summary Rebuild Error:', error);
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/calculate-pay
+ * Turn a set of time metrics into gross pay line items
+ */
+app.post("/api/calculate-pay", (req, res) => {
+  try {
+    const { metrics, payRate, multipliers } = req.body;
+
+    if (!Array.isArray(metrics)) {
+      return res.status(400).json({
+        error: "metrics must be an array"
+      });
+    }
+
+    if (!payRate) {
+      return res.status(400).json({
+        error: "Missing required field: payRate"
+      });
+    }
+
+    const pay = calculateGrossPay(metrics, payRate, multipliers);
+
+    res.json({
+      success: true,
+      data: pay
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/calculate-weekly-overtime
+ * Reclassify a workweek's hours as regular or overtime against a weekly threshold
+ */
+app.post("/api/calculate-weekly-overtime", (req, res) => {
+  try {
+    const { days, thresholdMinutes } = req.body;
+
+    if (!Array.isArray(days)) {
+      return res.status(400).json({
+        error: "days must be an array"
+      });
+    }
+
+    const week = calculateWeeklyOvertime(days, thresholdMinutes);
+
+    res.json({
+      success: true,
+      data: week
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/classify-days
+ * Classify each day in a date range as present, absent, rest day or rest-day work
+ */
+app.post("/api/classify-days", (req, res) => {
+  try {
+    const { startDate, endDate, workedDates = [], schedule } = req.body;
+
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: "Missing required fields: startDate and endDate are required"
+      });
+    }
+
+    if (!schedule || !schedule.start || !schedule.end) {
+      return res.status(400).json({
+        error: "Missing schedule information: start and end times are required"
+      });
+    }
+
+    const days = classifyScheduleDays(schedule, startDate, endDate, workedDates);
+
+    res.json({
+      success: true,
+      data: days
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
 /**
  * GET /api/health
  * Health check endpoint
@@ -0,0 +1,130 @@
+/**
+ * Session Calculation
+ *
+ * Calculates a closed session stored in Firestore and rebuilds the daily
+ * summaries it touches, so employees never write metrics or summaries
+ * themselves. Shared by the Express server (backend/server.js) and the Cloud
+ * Function (functions/index.cjs).
+ */
+
+const { FieldValue } = require("firebase-admin/firestore");
+const { DEFAULT_CALCULATION_POLICY, DEFAULT_SCHEDULE } = require("./lib/shared/calculationDefaults.js");
+const { calculateTimeMetrics } = require("./lib/shared/timeCalculator.js");
+const { toStoredMetrics } = require("./lib/utils/metrics.utils.js");
+const { COLLECTIONS, rebuildStoredSummaries, toDate } = require("./summaryRebuild.cjs");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An error with the HTTP status to answer it with
+ */
+class SessionCalculationError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * The Sunday-Saturday weeks spanning the given YYYY-MM-DD dates
+ */
+function getWeekRange(dates) {
+  const days = dates.map(date => new Date(`${date}T00:00:00Z`).getTime());
+  const first = new Date(Math.min(...days));
+  const last = new Date(Math.max(...days));
+  const start = new Date(first.getTime() - first.getUTCDay() * DAY_MS);
+  const end = new Date(last.getTime() + (6 - last.getUTCDay()) * DAY_MS);
+  return { startDate: start.toISOString().slice(0, 10), endDate: end.toISOString().slice(0, 10) };
+}
+
+/**
+ * Calculate a closed session with its user's schedule, overtime policy,
+ * holidays and approved overtime, save the metrics on it and rebuild the
+ * user's daily summaries for the weeks it touches
+ * Only the session's owner or an admin may calculate it. A failed calculation
+ * is recorded on the session, which stays pending for the reconciler.
+ *
+ * @param db - Admin SDK Firestore instance
+ * @param sessionId - ID of the session
+ * @param caller - The signed-in user, { uid, role }
+ * @returns The session's metrics
+ */
+async function calculateStoredSession(db, sessionId, caller) {
+  const sessionRef = db.collection(COLLECTIONS.SESSIONS).doc(sessionId);
+  const sessionSnap = await sessionRef.get();
+  if (!sessionSnap.exists) {
+    throw new SessionCalculationError(404, `Session ${sessionId} not found`);
+  }
+
+  const session = sessionSnap.data();
+  if (session.userId !== caller.uid && caller.role !== "admin") {
+    throw new SessionCalculationError(403, "Only the session's employee or an admin can calculate it");
+  }
+
+  const punchIn = toDate(session.punchIn);
+  const punchOut = toDate(session.punchOut);
+  if (session.status !== "closed" || !punchIn || !punchOut) {
+    throw new SessionCalculationError(409, `Session ${sessionId} is not closed`);
+  }
+
+  // Holidays the session may touch, a day either side for timezones
+  const [userSnap, holidaySnap, approvalSnap] = await Promise.all([
+    db.collection(COLLECTIONS.USERS).doc(session.userId).get(),
+    db.collection(COLLECTIONS.HOLIDAYS)
+      .where("date", ">=", new Date(punchIn.getTime() - DAY_MS).toISOString().slice(0, 10))
+      .where("date", "<=", new Date(punchOut.getTime() + DAY_MS).toISOString().slice(0, 10))
+      .get(),
+    db.collection(COLLECTIONS.OVERTIME_APPROVALS).doc(`${session.userId}_${session.date}`).get()
+  ]);
+
+  const user = userSnap.data() || {};
+  const holidays = holidaySnap.docs.map(holidayDoc => ({ id: holidayDoc.id, ...holidayDoc.data() }));
+  const policy = {
+    ...DEFAULT_CALCULATION_POLICY,
+    holidays,
+    overtime: { ...DEFAULT_CALCULATION_POLICY.overtime, ...user.overtimePolicy }
+  };
+
+  let metrics;
+  try {
+    metrics = calculateTimeMetrics(
+      { punchIn, punchOut, approvedOvertimeMinutes: approvalSnap.get("approvedMinutes") ?? 0 },
+      user.schedule || DEFAULT_SCHEDULE,
+      policy
+    );
+  } catch (error) {
+    await sessionRef.update({
+      calculationError: error.message,
+      calculationAttempts: FieldValue.increment(1),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    throw error;
+  }
+
+  // Overnight shifts belong to the date the shift started
+  const businessDate = metrics.businessDate || session.date;
+  await sessionRef.update({
+    date: businessDate,
+    duration: Math.floor((punchOut.getTime() - punchIn.getTime()) / 1000),
+    metrics: toStoredMetrics(metrics),
+    calculationStatus: "calculated",
+    calculationError: FieldValue.delete(),
+    calculationAttempts: FieldValue.delete(),
+    updatedAt: FieldValue.serverTimestamp()
+  });
+
+  // Whole weeks, so weekly overtime is reclassified too
+  await rebuildStoredSummaries(
+    db,
+    { userId: session.userId, ...getWeekRange([session.date, businessDate]) },
+    DEFAULT_SCHEDULE,
+    DEFAULT_CALCULATION_POLICY
+  );
+
+  return metrics;
+}
+
+module.exports = {
+  SessionCalculationError,
+  calculateStoredSession
+};
@@ -0,0 +1,255 @@
+/**
+ * Summary Rebuild
+ *
+ * Rebuilds daily summaries straight from the sessions stored in Firestore, and
+ * checks who the caller is. Shared by the Express server
+ * (backend/server.js) and the Cloud Function (functions/index.cjs); each passes
+ * in its own Admin SDK Auth and Firestore instances, initialised on first use.
+ */
+
+const { getSessionFingerprint, rebuildDailySummaries } = require("./lib/shared/timeCalculator.js");
+
+const COLLECTIONS = {
+  USERS: "users",
+  SESSIONS: "sessions",
+  DAILY_SUMMARY: "dailySummary",
+  HOLIDAYS: "holidays",
+  OVERTIME_APPROVALS: "overtimeApprovals"
+};
+
+class StaleSummaryError extends Error {}
+
+/**
+ * Express middleware that only lets signed-in users through, as `req.user`
+ * ({ uid, role })
+ * Expects a Firebase ID token in `Authorization: Bearer <token>`; the role is
+ * the `role` field of the user's `users` document. getAdminServices returns
+ * the Admin SDK { auth, db }, and is only called once a request comes in.
+ */
+function requireUser(getAdminServices) {
+  return async (req, res, next) => {
+    let auth, db;
+    try {
+      ({ auth, db } = getAdminServices());
+    } catch (error) {
+      return res.status(503).json({
+        error: `Firestore is not configured on this server: ${error.message}`
+      });
+    }
+
+    const match = /^Bearer (.+)$/.exec(req.get("Authorization") || "");
+    if (!match) {
+      return res.status(401).json({
+        error: "Missing ID token: send Authorization: Bearer <token>"
+      });
+    }
+
+    let uid;
+    try {
+      ({ uid } = await auth.verifyIdToken(match[1]));
+    } catch {
+      return res.status(401).json({
+        error: "Invalid or expired ID token"
+      });
+    }
+
+    const userDoc = await db.collection(COLLECTIONS.USERS).doc(uid).get();
+    req.user = { uid, role: userDoc.get("role") };
+    next();
+  };
+}
+
+/**
+ * Express middleware that only lets admins through
+ */
+function requireAdmin(getAdminServices) {
+  const authenticate = requireUser(getAdminServices);
+
+  return (req, res, next) => authenticate(req, res, () => {
+    if (req.user.role !== "admin") {
+      return res.status(403).json({
+        error: "Only admins can do this"
+      });
+    }
+
+    next();
+  });
+}
+
+/**
+ * A stored timestamp as a Date, or null when it is missing
+ */
+function toDate(value) {
+  if (!value) return null;
+  return typeof value.toDate === "function" ? value.toDate() : new Date(value);
+}
+
+/**
+ * A query for an optional user and inclusive date range
+ */
+function whereDateRange(collectionRef, { userId, startDate, endDate }) {
+  let ref = collectionRef;
+  if (userId) ref = ref.where("userId", "==", userId);
+  if (startDate) ref = ref.where("date", ">=", startDate);
+  if (endDate) ref = ref.where("date", "<=", endDate);
+  return ref;
+}
+
+/**
+ * Closed sessions with a punch out, as the calculator takes them
+ */
+function toCompletedSessions(snapshot) {
+  return snapshot.docs
+    .map(sessionDoc => {
+      const data = sessionDoc.data();
+      return {
+        id: sessionDoc.id,
+        userId: data.userId || data.userEmail,
+        date: data.date,
+        punchIn: toDate(data.punchIn),
+        punchOut: toDate(data.punchOut)
+      };
+    })
+    .filter(session => session.punchIn && session.punchOut);
+}
+
+/**
+ * Fingerprints of the day's completed sessions, by session ID
+ */
+async function readDayFingerprints(transaction, db, userId, date) {
+  const snapshot = await transaction.get(
+    db.collection(COLLECTIONS.SESSIONS)
+      .where("userId", "==", userId)
+      .where("status", "==", "closed")
+      .where("date", "==", date)
+  );
+  return Object.fromEntries(
+    toCompletedSessions(snapshot).map(session => [session.id, getSessionFingerprint(session.punchIn, session.punchOut)])
+  );
+}
+
+function isSameSessions(current, calculated = {}) {
+  const ids = Object.keys(current);
+  return ids.length === Object.keys(calculated).length && ids.every(id => current[id] === calculated[id]);
+}
+
+/**
+ * Save a rebuilt summary, unless the day's sessions changed since it was calculated
+ */
+async function saveSummary(db, summary) {
+  const summaryRef = db.collection(COLLECTIONS.DAILY_SUMMARY).doc(`${summary.userId}_${summary.date}`);
+
+  await db.runTransaction(async (transaction) => {
+    const summarySnap = await transaction.get(summaryRef);
+    const current = await readDayFingerprints(transaction, db, summary.userId, summary.date);
+    if (!isSameSessions(current, summary.sessions)) {
+      throw new StaleSummaryError(`Sessions for ${summary.userId} on ${summary.date} changed during the rebuild`);
+    }
+
+    const now = new Date();
+    transaction.set(summaryRef, {
+      ...summary,
+      createdAt: summarySnap.exists ? summarySnap.get("createdAt") ?? now : now,
+      lastUpdated: now
+    });
+  });
+}
+
+/**
+ * Delete a summary, unless the day has sessions again
+ */
+async function deleteSummary(db, userId, date) {
+  const summaryRef = db.collection(COLLECTIONS.DAILY_SUMMARY).doc(`${userId}_${date}`);
+
+  await db.runTransaction(async (transaction) => {
+    const current = await readDayFingerprints(transaction, db, userId, date);
+    if (Object.keys(current).length > 0) {
+      throw new StaleSummaryError(`Sessions for ${userId} on ${date} changed during the rebuild`);
+    }
+    transaction.delete(summaryRef);
+  });
+}
+
+/**
+ * Take a day the rebuild could not write out of the report's counts and
+ * list it with the errors
+ */
+function reportLeftAsIs(report, userId, date, error) {
+  const index = report.changes.findIndex(change => change.userId === userId && change.date === date);
+  if (index >= 0) {
+    report[report.changes[index].action]--;
+    report.changes.splice(index, 1);
+  }
+  report.errors.push({ userId, date, error: error.message });
+}
+
+/**
+ * Rebuild and save the daily summaries for a user, a date range or both
+ * Reads the completed sessions, existing summaries, employees, holidays and
+ * overtime approvals from Firestore, then saves the rebuilt summaries and
+ * deletes the ones with no sessions left. A day whose sessions change while the
+ * rebuild runs is left as it is and listed in the report's errors. Pass whole
+ * Sunday-Saturday weeks so weekly overtime is reclassified correctly.
+ *
+ * @param db - Admin SDK Firestore instance
+ * @param range - { userId, startDate, endDate }, each optional
+ * @param schedule - Schedule for users without one of their own
+ * @param policy - Company calculation policy
+ * @returns The rebuild report
+ */
+async function rebuildStoredSummaries(db, range, schedule, policy) {
+  const [sessionSnap, summarySnap, employeeSnap, approvalSnap] = await Promise.all([
+    whereDateRange(db.collection(COLLECTIONS.SESSIONS), range).where("status", "==", "closed").get(),
+    whereDateRange(db.collection(COLLECTIONS.DAILY_SUMMARY), range).get(),
+    db.collection(COLLECTIONS.USERS).where("role", "in", ["employee", "user"]).get(),
+    whereDateRange(db.collection(COLLECTIONS.OVERTIME_APPROVALS), range).get()
+  ]);
+
+  const sessions = toCompletedSessions(sessionSnap);
+  const summaries = summarySnap.docs.map(summaryDoc => summaryDoc.data());
+  const employees = employeeSnap.docs.map(userDoc => ({ ...userDoc.data(), userId: userDoc.id }));
+  const approvals = approvalSnap.docs.map(approvalDoc => approvalDoc.data());
+
+  // Holidays the sessions may touch, a day either side for timezones
+  let holidays = [];
+  if (sessions.length > 0) {
+    const day = 24 * 60 * 60 * 1000;
+    const first = new Date(Math.min(...sessions.map(session => session.punchIn.getTime())) - day);
+    const last = new Date(Math.max(...sessions.map(session => session.punchOut.getTime())) + day);
+    const holidaySnap = await db.collection(COLLECTIONS.HOLIDAYS)
+      .where("date", ">=", first.toISOString().slice(0, 10))
+      .where("date", "<=", last.toISOString().slice(0, 10))
+      .get();
+    holidays = holidaySnap.docs.map(holidayDoc => ({ id: holidayDoc.id, ...holidayDoc.data() }));
+  }
+
+  const rebuild = rebuildDailySummaries({ sessions, summaries, employees, holidays, approvals }, schedule, policy);
+
+  for (const summary of rebuild.summaries) {
+    try {
+      await saveSummary(db, summary);
+    } catch (error) {
+      if (!(error instanceof StaleSummaryError)) throw error;
+      reportLeftAsIs(rebuild.report, summary.userId, summary.date, error);
+    }
+  }
+
+  for (const { userId, date } of rebuild.deletions) {
+    try {
+      await deleteSummary(db, userId, date);
+    } catch (error) {
+      if (!(error instanceof StaleSummaryError)) throw error;
+      reportLeftAsIs(rebuild.report, userId, date, error);
+    }
+  }
+
+  return rebuild.report;
+}
+
+module.exports = {
+  COLLECTIONS,
+  requireAdmin,
+  requireUser,
+  rebuildStoredSummaries,
+  toDate
+};
@@ -0,0 +1,54 @@
+/**
+ * Promote the first admin
+ *
+ * Admin status comes from the `role` field of the user's `users` document,
+ * which security rules only let admins change, so the first admin has to be
+ * set with admin credentials. The account must already exist: sign up in the
+ * app first, then run this with its email. Later admins are granted from the
+ * admin dashboard's Users & Roles tab.
+ *
+ * Usage (credentials from GOOGLE_APPLICATION_CREDENTIALS):
+ *   npm run admin:bootstrap -- admin@example.com
+ *
+ * Refuses to run once any user is an admin.
+ */
+
+import { applicationDefault, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+
+const email = process.argv[2];
+
+async function bootstrap() {
+  if (!email) {
+    throw new Error("Pass the email of the account to promote: npm run admin:bootstrap -- <email>");
+  }
+
+  initializeApp({ credential: applicationDefault() });
+  const db = getFirestore();
+
+  const admins = await db.collection("users").where("role", "==", "admin").limit(1).get();
+  if (!admins.empty) {
+    throw new Error(`An admin already exists (${admins.docs[0].get("email")}); grant roles from the admin dashboard`);
+  }
+
+  const account = await getAuth().getUserByEmail(email);
+  const userRef = db.collection("users").doc(account.uid);
+  const userDoc = await userRef.get();
+
+  await userRef.set(
+    {
+      ...(userDoc.exists ? {} : { name: account.displayName || email.split("@")[0], email, createdAt: FieldValue.serverTimestamp() }),
+      role: "admin",
+      updatedAt: FieldValue.serverTimestamp()
+    },
+    { merge: true }
+  );
+
+  console.log(`${email} (${account.uid}) is now an admin`);
+}
+
+bootstrap().catch((error) => {
+  console.error("Bootstrap failed:", error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,156 @@
+/**
+ * Migrate attendance documents to the sessions collection
+ *
+ * The old `attendance` collection stored each session as up to three
+ * documents: a punch_in that became `completed` at punch out, plus a separate
+ * punch_out copy. This writes one `sessions` document per session, keeping the
+ * punch-in document's ID so daily summaries (keyed by attendance ID) still
+ * match. `attendance` itself is left untouched.
+ *
+ * - completed with a punch out   -> closed
+ * - punch_in with a punch_out    -> closed, punch out taken from the punch_out
+ * - punch_in without a punch_out -> open if it is the user's latest session,
+ *                                   otherwise voided
+ * - punch_out                    -> merged into its session; orphans are reported
+ *
+ * Closed sessions without metrics are marked pending so the app's reconciler
+ * calculates them.
+ *
+ * Usage (credentials from GOOGLE_APPLICATION_CREDENTIALS):
+ *   npm run migrate:sessions            # dry run, prints the report
+ *   npm run migrate:sessions -- --apply # writes the sessions
+ *
+ * Safe to run again: a session that already exists is left as it is, so
+ * sessions edited, voided or restored in the app since an earlier run are
+ * never overwritten.
+ */
+
+import { applicationDefault, initializeApp } from "firebase-admin/app";
+import { FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
+
+const BATCH_SIZE = 400;
+
+const apply = process.argv.includes("--apply");
+
+/**
+ * A stored timestamp as a Firestore Timestamp, or null when it is missing or unreadable
+ */
+function toTimestamp(value) {
+  if (value instanceof Timestamp) return value;
+  if (typeof value === "string" || typeof value === "number" || value instanceof Date) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : Timestamp.fromDate(date);
+  }
+  return null;
+}
+
+/**
+ * Build the session document for a punch-in (or completed) attendance document
+ */
+function toSession(data, punchOutData, isLatest) {
+  const punchIn = toTimestamp(data.punchIn);
+  const punchOut = toTimestamp(data.punchOut) || toTimestamp(punchOutData?.punchOut);
+  const status = punchOut ? "closed" : isLatest ? "open" : "voided";
+  const metrics = data.metrics || punchOutData?.metrics || null;
+
+  const session = {
+    userId: data.userId || data.userEmail,
+    userEmail: data.userEmail || null,
+    userName: data.userName || null,
+    status,
+    punchIn,
+    punchOut,
+    date: data.date,
+    duration: status === "closed"
+      ? data.duration ?? punchOutData?.duration ?? Math.floor((punchOut.toMillis() - punchIn.toMillis()) / 1000)
+      : null,
+    metrics: status === "closed" ? metrics : null,
+    createdAt: toTimestamp(data.timestamp) || punchIn,
+    updatedAt: FieldValue.serverTimestamp()
+  };
+
+  if (status === "closed") {
+    session.calculationStatus = metrics ? data.calculationStatus || "calculated" : "pending";
+    if (!metrics && data.calculationError) session.calculationError = data.calculationError;
+  }
+
+  return session;
+}
+
+async function migrate() {
+  initializeApp({ credential: applicationDefault() });
+  const db = getFirestore();
+
+  const snapshot = await db.collection("attendance").get();
+  const punchIns = [];
+  const punchOuts = new Map();
+  const report = { closed: 0, open: 0, voided: 0, mergedPunchOuts: 0, orphanPunchOuts: [], skipped: [], existing: 0 };
+
+  for (const attendanceDoc of snapshot.docs) {
+    const data = attendanceDoc.data();
+
+    if (data.type === "punch_out") {
+      // Retried punch outs could leave more than one per session
+      const related = punchOuts.get(data.relatedSessionId) || [];
+      punchOuts.set(data.relatedSessionId, [...related, { id: attendanceDoc.id, data }]);
+    } else if ((data.type === "punch_in" || data.type === "completed") && toTimestamp(data.punchIn) && data.date) {
+      punchIns.push({ id: attendanceDoc.id, data });
+    } else {
+      report.skipped.push(attendanceDoc.id);
+    }
+  }
+
+  // Each user's latest punch in is the only one that can still be open
+  const latestPunchIn = new Map();
+  for (const { data } of punchIns) {
+    const userId = data.userId || data.userEmail;
+    const millis = toTimestamp(data.punchIn).toMillis();
+    latestPunchIn.set(userId, Math.max(latestPunchIn.get(userId) ?? 0, millis));
+  }
+
+  const sessions = punchIns.map(({ id, data }) => {
+    const [punchOut] = punchOuts.get(id) || [];
+    report.mergedPunchOuts += punchOuts.get(id)?.length ?? 0;
+    punchOuts.delete(id);
+
+    const userId = data.userId || data.userEmail;
+    const isLatest = latestPunchIn.get(userId) === toTimestamp(data.punchIn).toMillis();
+    const session = toSession(data, punchOut?.data, isLatest);
+    report[session.status]++;
+    return { id, session };
+  });
+  report.orphanPunchOuts = [...punchOuts.values()].flat().map(({ id }) => id);
+
+  for (let start = 0; start < sessions.length; start += BATCH_SIZE) {
+    const chunk = sessions.slice(start, start + BATCH_SIZE);
+    const existing = await db.getAll(...chunk.map(({ id }) => db.collection("sessions").doc(id)));
+    const missing = chunk.filter((_, index) => !existing[index].exists);
+    report.existing += chunk.length - missing.length;
+
+    if (apply && missing.length > 0) {
+      // create() fails instead of overwriting if the app wrote the session in the meantime
+      const batch = db.batch();
+      for (const { id, session } of missing) {
+        batch.create(db.collection("sessions").doc(id), session);
+      }
+      await batch.commit();
+    }
+  }
+
+  console.log(apply ? "Migrated attendance to sessions" : "Dry run; pass --apply to write the sessions");
+  console.log(`Attendance documents: ${snapshot.size}`);
+  console.log(`Sessions: ${sessions.length} (${report.closed} closed, ${report.open} open, ${report.voided} voided)`);
+  console.log(`Punch-out documents merged: ${report.mergedPunchOuts}`);
+  console.log(`Sessions already migrated, left unchanged: ${report.existing}`);
+  if (report.orphanPunchOuts.length > 0) {
+    console.log(`Punch-out documents with no session: ${report.orphanPunchOuts.join(", ")}`);
+  }
+  if (report.skipped.length > 0) {
+    console.log(`Skipped unreadable documents: ${report.skipped.join(", ")}`);
+  }
+}
+
+migrate().catch((error) => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
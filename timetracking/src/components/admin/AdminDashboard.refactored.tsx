@@ -3,16 +3,27 @@
  * Main admin dashboard using smaller, focused components
  */
 
-import { Download, LogOut, Shield } from 'lucide-react';
+import { Download, LogOut, RefreshCw, Shield } from 'lucide-react';
 import React, { useState } from 'react';
 import { useAdminDashboard } from '../../hooks/useAdminDashboard';
-import type { Punch, User } from '../../types';
+import { useDeletedPunches } from '../../hooks/useDeletedPunches';
+import { useHolidays } from '../../hooks/useHolidays';
+import { usePendingCalculations } from '../../hooks/usePendingCalculations';
+import { useSummaryRebuild } from '../../hooks/useSummaryRebuild';
+import { useUserRoles } from '../../hooks/useUserRoles';
+import type { AdminTab, AuditActor, AuditLogEntry, CalculationTrace, DeletedPunch, Punch, User } from '../../types';
 import { getTodayISO } from '../../utils/date.utils';
 import DailyReportTable from './DailyReportTable';
+import DeletedPunchTable from './DeletedPunchTable';
 import EditPunchModal from './EditPunchModal';
+import HolidayCalendar from './HolidayCalendar';
+import PendingCalculationsPanel from './PendingCalculationsPanel';
+import PunchDetailsDrawer from './PunchDetailsDrawer';
 import PunchTable from './PunchTable';
+import RebuildSummariesModal from './RebuildSummariesModal';
 import SearchFilterBar from './SearchFilterBar';
 import TabNavigation from './TabNavigation';
+import UserRoleTable from './UserRoleTable';
 import WeeklyReportTable from './WeeklyReportTable';
 
 interface AdminDashboardProps {
@@ -21,26 +32,83 @@ interface AdminDashboardProps {
 }
 
 const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
-  const [activeTab, setActiveTab] = useState<'punches' | 'daily' | 'weekly'>('punches');
+  const [activeTab, setActiveTab] = useState<AdminTab>('punches');
   const [selectedDate, setSelectedDate] = useState(getTodayISO());
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilterMenu, setShowFilterMenu] = useState(false);
+  const [showAmounts, setShowAmounts] = useState(false);
   const [editingPunch, setEditingPunch] = useState<Punch | null>(null);
+  const [viewingPunch, setViewingPunch] = useState<Punch | null>(null);
+  const [punchTrace, setPunchTrace] = useState<CalculationTrace | null>(null);
+  const [traceLoading, setTraceLoading] = useState(false);
+  const [punchHistory, setPunchHistory] = useState<AuditLogEntry[]>([]);
+  const [showRebuild, setShowRebuild] = useState(false);
   const [editFormData, setEditFormData] = useState({
     punchIn: '',
     punchOut: '',
-    date: ''
+    date: '',
+    reason: ''
   });
 
+  const actor: AuditActor = { userId: user.userId ?? null, email: user.email, name: user.name };
+
   const {
     punches,
     dailyReports,
     weeklyReports,
     loading,
+    loadingMore,
+    pageSize,
+    setPageSize,
+    punchSort,
+    setPunchSort,
+    hasMorePunches,
+    hasMoreDailyReports,
+    hasMoreWeeklyReports,
+    fetchAttendanceData,
+    fetchMorePunches,
+    fetchDailyReports,
+    fetchMoreDailyReports,
+    fetchWeeklyReports,
+    fetchMoreWeeklyReports,
     handleDeletePunch,
     handleSaveEdit,
+    handleApproveOvertime,
+    fetchCalculationTrace,
+    fetchPunchHistory,
     convertTo24Hour
-  } = useAdminDashboard(selectedDate, activeTab);
+  } = useAdminDashboard(selectedDate, activeTab, actor, showAmounts);
+
+  const selectedYear = selectedDate.slice(0, 4);
+  const {
+    holidays,
+    loading: holidaysLoading,
+    handleSaveHoliday,
+    handleDeleteHoliday
+  } = useHolidays(selectedYear, activeTab === 'holidays');
+
+  const {
+    deletedPunches,
+    loading: deletedLoading,
+    handleRestorePunch
+  } = useDeletedPunches(selectedDate, actor, activeTab === 'deleted');
+
+  const {
+    users,
+    loading: usersLoading,
+    handleGrantAdmin,
+    handleRevokeAdmin
+  } = useUserRoles(user.userId, activeTab === 'users');
+
+  const {
+    employees,
+    report: rebuildReport,
+    running: rebuildRunning,
+    handleRebuild
+  } = useSummaryRebuild(showRebuild);
+
+  // Retry every employee's pending punches; the punch clock only lists them
+  const { pending, reconcile: reconcilePending } = usePendingCalculations();
 
   // Filter punches based on search query
   const filteredPunches = punches.filter((punch) =>
@@ -56,10 +124,47 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     report.employeeName.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const handleViewPunch = (punch: Punch) => {
-    alert(
-      `Punch Details:\nEmployee: ${punch.employeeName}\nDate: ${punch.date}\nPunch In: ${punch.punchIn}\nPunch Out: ${punch.punchOut}\nTotal Hours: ${punch.totalHours}\nStatus: ${punch.status}`
-    );
+  const filteredDeletedPunches = deletedPunches.filter((punch) =>
+    punch.employeeName.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const filteredUsers = users.filter((account) =>
+    `${account.name} ${account.email}`.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const filteredHolidays = holidays.filter((holiday) =>
+    holiday.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  // Page controls for each table; search filters only the rows loaded so far
+  const pageControls = { loading: loadingMore, pageSize, onPageSizeChange: setPageSize };
+
+  const handleViewPunch = async (punch: Punch) => {
+    setViewingPunch(punch);
+    setPunchTrace(null);
+    setPunchHistory([]);
+    setTraceLoading(true);
+    const [trace, history] = await Promise.all([fetchCalculationTrace(punch.id), fetchPunchHistory(punch.id)]);
+    setPunchTrace(trace);
+    setPunchHistory(history);
+    setTraceLoading(false);
+  };
+
+  const handleRestore = async (punch: DeletedPunch) => {
+    const restored = await handleRestorePunch(punch);
+    if (restored) fetchAttendanceData();
+  };
+
+  const handleRebuildSummaries = async (userId: string, startDate: string, endDate: string) => {
+    const rebuilt = await handleRebuild(userId, startDate, endDate);
+    if (rebuilt && activeTab === 'daily') fetchDailyReports();
+    if (rebuilt && activeTab === 'weekly') fetchWeeklyReports();
+  };
+
+  // Retry now also retries the punches the background retries gave up on
+  const handleRetryPending = async () => {
+    const reconciled = await reconcilePending(true);
+    if (reconciled > 0) fetchAttendanceData();
   };
 
   const handleEditPunch = (punch: Punch) => {
@@ -68,19 +173,26 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     setEditFormData({
       punchIn: `${today}T${convertTo24Hour(punch.punchIn)}`,
       punchOut: `${today}T${convertTo24Hour(punch.punchOut)}`,
-      date: punch.date
+      date: punch.date,
+      reason: ''
     });
   };
 
-  const handleSaveEditForm = () => {
+  const handleSaveEditForm = async () => {
     if (!editingPunch) return;
-    handleSaveEdit(editingPunch.id, editFormData.punchIn, editFormData.punchOut, editFormData.date);
-    setEditingPunch(null);
+    const saved = await handleSaveEdit(
+      editingPunch.id,
+      editFormData.punchIn,
+      editFormData.punchOut,
+      editFormData.date,
+      editFormData.reason
+    );
+    if (saved) setEditingPunch(null);
   };
 
   const handleCancelEdit = () => {
     setEditingPunch(null);
-    setEditFormData({ punchIn: '', punchOut: '', date: '' });
+    setEditFormData({ punchIn: '', punchOut: '', date: '', reason: '' });
   };
 
 
@@ -100,6 +212,13 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
               </div>
             </div>
             <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowRebuild(true)}
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <RefreshCw className="w-4 h-4" />
+                <span>Rebuild Summaries</span>
+              </button>
               <button className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
                 <Download className="w-4 h-4" />
                 <span>Export</span>
@@ -115,6 +234,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
           </div>
         </div>
 
+        {/* Punches awaiting calculation */}
+        {pending.length > 0 && <PendingCalculationsPanel pending={pending} onRetry={handleRetryPending} />}
+
         {/* Tab Navigation and Content */}
         <div className="bg-white rounded-2xl shadow-lg mb-6 border border-gray-100">
           <TabNavigation activeTab={activeTab} onTabChange={setActiveTab} />
@@ -131,7 +253,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
 
           {/* Content Area */}
           <div className="p-6">
-            {loading ? (
+            {loading || holidaysLoading || deletedLoading || usersLoading ? (
               <div className="flex items-center justify-center py-12">
                 <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
                 <span className="ml-3 text-gray-600">Loading...</span>
@@ -141,18 +263,74 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                 {activeTab === 'punches' && (
                   <PunchTable
                     punches={filteredPunches}
+                    sortDirection={punchSort}
+                    pagination={{
+                      ...pageControls,
+                      loadedCount: punches.length,
+                      hasMore: hasMorePunches,
+                      onLoadMore: fetchMorePunches
+                    }}
+                    onSortChange={setPunchSort}
                     onView={handleViewPunch}
                     onEdit={handleEditPunch}
                     onDelete={handleDeletePunch}
                   />
                 )}
 
+                {activeTab === 'deleted' && (
+                  <DeletedPunchTable
+                    punches={filteredDeletedPunches}
+                    onRestore={handleRestore}
+                  />
+                )}
+
                 {activeTab === 'daily' && (
-                  <DailyReportTable reports={filteredDailyReports} selectedDate={selectedDate} />
+                  <DailyReportTable
+                    reports={filteredDailyReports}
+                    selectedDate={selectedDate}
+                    showAmounts={showAmounts}
+                    pagination={{
+                      ...pageControls,
+                      loadedCount: dailyReports.length,
+                      hasMore: hasMoreDailyReports,
+                      onLoadMore: fetchMoreDailyReports
+                    }}
+                    onShowAmountsChange={setShowAmounts}
+                    onApproveOvertime={handleApproveOvertime}
+                  />
                 )}
 
                 {activeTab === 'weekly' && (
-                  <WeeklyReportTable reports={filteredWeeklyReports} selectedDate={selectedDate} />
+                  <WeeklyReportTable
+                    reports={filteredWeeklyReports}
+                    selectedDate={selectedDate}
+                    showAmounts={showAmounts}
+                    pagination={{
+                      ...pageControls,
+                      loadedCount: weeklyReports.length,
+                      hasMore: hasMoreWeeklyReports,
+                      onLoadMore: fetchMoreWeeklyReports
+                    }}
+                    onShowAmountsChange={setShowAmounts}
+                  />
+                )}
+
+                {activeTab === 'users' && (
+                  <UserRoleTable
+                    users={filteredUsers}
+                    currentUserId={user.userId}
+                    onGrantAdmin={handleGrantAdmin}
+                    onRevokeAdmin={handleRevokeAdmin}
+                  />
+                )}
+
+                {activeTab === 'holidays' && (
+                  <HolidayCalendar
+                    holidays={filteredHolidays}
+                    year={selectedYear}
+                    onSave={handleSaveHoliday}
+                    onDelete={handleDeleteHoliday}
+                  />
                 )}
               </>
             )}
@@ -170,6 +348,28 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
           onCancel={handleCancelEdit}
         />
       )}
+
+      {/* Rebuild Summaries Modal */}
+      {showRebuild && (
+        <RebuildSummariesModal
+          employees={employees}
+          report={rebuildReport}
+          running={rebuildRunning}
+          onRebuild={handleRebuildSummaries}
+          onClose={() => setShowRebuild(false)}
+        />
+      )}
+
+      {/* Punch Details Drawer */}
+      {viewingPunch && (
+        <PunchDetailsDrawer
+          punch={viewingPunch}
+          trace={punchTrace}
+          history={punchHistory}
+          loading={traceLoading}
+          onClose={() => setViewingPunch(null)}
+        />
+      )}
     </div>
   );
 };
@@ -3,23 +3,46 @@
  * Displays daily attendance report table
  */
 
-import { AlertCircle, Users } from 'lucide-react';
+import { AlertCircle, ClockAlert, Users } from 'lucide-react';
 import React from 'react';
 import type { DailyReport } from '../../types';
+import PaginationControls, { type PaginationControlsProps } from './PaginationControls';
 
 interface DailyReportTableProps {
   reports: DailyReport[];
   selectedDate: string;
+  showAmounts: boolean;
+  pagination: PaginationControlsProps;
+  onShowAmountsChange: (showAmounts: boolean) => void;
+  onApproveOvertime: (report: DailyReport) => void;
 }
 
-const DailyReportTable: React.FC<DailyReportTableProps> = ({ reports, selectedDate }) => {
+const DailyReportTable: React.FC<DailyReportTableProps> = ({
+  reports,
+  selectedDate,
+  showAmounts,
+  pagination,
+  onShowAmountsChange,
+  onApproveOvertime
+}) => {
   return (
     <div>
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-semibold text-gray-900">Daily Report - {selectedDate}</h2>
-        <div className="flex items-center space-x-2 text-sm text-gray-600">
-          <AlertCircle className="w-4 h-4" />
-          <span>All metrics included (Regular, OT, ND, Late, Undertime)</span>
+        <div className="flex items-center space-x-4 text-sm text-gray-600">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showAmounts}
+              onChange={(e) => onShowAmountsChange(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Show amounts</span>
+          </label>
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="w-4 h-4" />
+            <span>All metrics included (Regular, OT, ND, Holiday, Late, Undertime)</span>
+          </div>
         </div>
       </div>
       <div className="overflow-x-auto">
@@ -30,15 +53,21 @@ const DailyReportTable: React.FC<DailyReportTableProps> = ({ reports, selectedDa
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Regular (hrs)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">OT (hrs)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">ND (hrs)</th>
+              <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Reg. Holiday (hrs)</th>
+              <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Special Holiday (hrs)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Late (min)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Undertime (min)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Total (hrs)</th>
+              {showAmounts && (
+                <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Gross Pay</th>
+              )}
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Actions</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
             {reports.length === 0 ? (
               <tr>
-                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                <td colSpan={showAmounts ? 11 : 10} className="px-4 py-8 text-center text-gray-500">
                   No daily reports found for this date
                 </td>
               </tr>
@@ -51,20 +80,49 @@ const DailyReportTable: React.FC<DailyReportTableProps> = ({ reports, selectedDa
                         <Users className="w-4 h-4 text-blue-600" />
                       </div>
                       <span className="font-medium text-gray-900">{report.employeeName}</span>
+                      {report.status === 'absent' && (
+                        <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border bg-gray-100 text-gray-700 border-gray-200">
+                          Absent
+                        </span>
+                      )}
                     </div>
                   </td>
                   <td className="px-4 py-4 text-right text-gray-700">{report.regular}</td>
-                  <td className="px-4 py-4 text-right text-blue-600 font-medium">{report.overtime}</td>
+                  <td className="px-4 py-4 text-right text-blue-600 font-medium">
+                    {report.overtime}
+                    {parseFloat(report.unauthorizedOvertime || '0') > 0 && (
+                      <div className="text-xs text-yellow-700" title="Extended time beyond approved overtime">
+                        +{report.unauthorizedOvertime} unauthorized
+                      </div>
+                    )}
+                  </td>
                   <td className="px-4 py-4 text-right text-purple-600 font-medium">{report.nightDiff}</td>
+                  <td className="px-4 py-4 text-right text-rose-600 font-medium">{report.regularHoliday}</td>
+                  <td className="px-4 py-4 text-right text-amber-600 font-medium">{report.specialHoliday}</td>
                   <td className="px-4 py-4 text-right text-orange-600 font-medium">{report.late}</td>
                   <td className="px-4 py-4 text-right text-red-600 font-medium">{report.undertime}</td>
                   <td className="px-4 py-4 text-right font-bold text-gray-900">{report.total}</td>
+                  {showAmounts && (
+                    <td className="px-4 py-4 text-right font-bold text-green-700">{report.grossPay ?? '—'}</td>
+                  )}
+                  <td className="px-4 py-4">
+                    {report.userId && report.status !== 'absent' && (
+                      <button
+                        onClick={() => onApproveOvertime(report)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        title="Approve overtime"
+                      >
+                        <ClockAlert className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
                 </tr>
               ))
             )}
           </tbody>
         </table>
       </div>
+      <PaginationControls {...pagination} />
     </div>
   );
 };
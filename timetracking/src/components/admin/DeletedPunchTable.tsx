@@ -0,0 +1,82 @@
+/**
+ * DeletedPunchTable Component
+ * Displays deleted punch records with a restore action
+ */
+
+import { RotateCcw, Users } from 'lucide-react';
+import React from 'react';
+import type { DeletedPunch } from '../../types';
+
+interface DeletedPunchTableProps {
+  punches: DeletedPunch[];
+  onRestore: (punch: DeletedPunch) => void;
+}
+
+const DeletedPunchTable: React.FC<DeletedPunchTableProps> = ({ punches, onRestore }) => {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Deleted Punches</h2>
+        <span className="text-sm text-gray-600">{punches.length} deleted punches</span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Employee</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Date</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Punch In</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Punch Out</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Total Hours</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Deleted</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Reason</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {punches.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                  No deleted punches for this date
+                </td>
+              </tr>
+            ) : (
+              punches.map((punch) => (
+                <tr key={punch.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-4 py-4">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center">
+                        <Users className="w-4 h-4 text-gray-500" />
+                      </div>
+                      <span className="font-medium text-gray-900">{punch.employeeName}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-4 text-gray-700">{punch.date}</td>
+                  <td className="px-4 py-4 text-gray-700">{punch.punchIn}</td>
+                  <td className="px-4 py-4 text-gray-700">{punch.punchOut}</td>
+                  <td className="px-4 py-4 font-semibold text-gray-900">{punch.totalHours} hrs</td>
+                  <td className="px-4 py-4 text-sm text-gray-700">
+                    {punch.deletedAt}
+                    <span className="block text-xs text-gray-500">by {punch.deletedBy}</span>
+                  </td>
+                  <td className="px-4 py-4 text-sm text-gray-700">{punch.reason}</td>
+                  <td className="px-4 py-4">
+                    <button
+                      onClick={() => onRestore(punch)}
+                      className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                      title="Restore punch"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DeletedPunchTable;
@@ -12,8 +12,9 @@ interface EditPunchModalProps {
     punchIn: string;
     punchOut: string;
     date: string;
+    reason: string;
   };
-  onFormChange: (field: 'punchIn' | 'punchOut' | 'date', value: string) => void;
+  onFormChange: (field: 'punchIn' | 'punchOut' | 'date' | 'reason', value: string) => void;
   onSave: () => void;
   onCancel: () => void;
 }
@@ -70,6 +71,17 @@ const EditPunchModal: React.FC<EditPunchModalProps> = ({
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reason for Change</label>
+            <textarea
+              value={formData.reason}
+              onChange={(e) => onFormChange('reason', e.target.value)}
+              rows={2}
+              placeholder="Required; recorded in the punch history"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
         </div>
 
         <div className="flex space-x-3 mt-8">
@@ -81,7 +93,8 @@ const EditPunchModal: React.FC<EditPunchModalProps> = ({
           </button>
           <button
             onClick={onSave}
-            className="flex-1 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+            disabled={!formData.reason.trim()}
+            className="flex-1 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:opacity-50"
           >
             Save Changes
           </button>
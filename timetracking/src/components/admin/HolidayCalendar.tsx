@@ -0,0 +1,158 @@
+/**
+ * HolidayCalendar Component
+ * Lists holidays for a year and lets admins add, edit and delete them
+ */
+
+import { CalendarDays, Edit, Plus, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { HOLIDAY_TYPE_LABELS } from '../../config/constants';
+import type { Holiday, HolidayType } from '../../types';
+
+interface HolidayCalendarProps {
+  holidays: Holiday[];
+  year: string;
+  onSave: (holiday: Holiday) => Promise<boolean>;
+  onDelete: (holiday: Holiday) => void;
+}
+
+const EMPTY_HOLIDAY: Holiday = { date: '', name: '', type: 'regular' };
+
+const HolidayCalendar: React.FC<HolidayCalendarProps> = ({ holidays, year, onSave, onDelete }) => {
+  const [formData, setFormData] = useState<Holiday>(EMPTY_HOLIDAY);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await onSave(formData);
+    if (saved) {
+      setFormData(EMPTY_HOLIDAY);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Holiday Calendar - {year}</h2>
+        <span className="text-sm text-gray-600">{holidays.length} holidays</span>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-end space-x-3 mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
+          <input
+            type="date"
+            value={formData.date}
+            onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+          <input
+            type="text"
+            placeholder="e.g. Independence Day"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+          <select
+            value={formData.type}
+            onChange={(e) => setFormData({ ...formData, type: e.target.value as HolidayType })}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {Object.entries(HOLIDAY_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {formData.id && (
+          <button
+            type="button"
+            onClick={() => setFormData(EMPTY_HOLIDAY)}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-white font-medium transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{formData.id ? 'Save Holiday' : 'Add Holiday'}</span>
+        </button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Date</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Name</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Type</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {holidays.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-8 text-center text-gray-500">
+                  No holidays found for this year
+                </td>
+              </tr>
+            ) : (
+              holidays.map((holiday) => (
+                <tr key={holiday.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-4 py-4 text-gray-700">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-rose-100 rounded-full flex items-center justify-center">
+                        <CalendarDays className="w-4 h-4 text-rose-600" />
+                      </div>
+                      <span>{holiday.date}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-4 font-medium text-gray-900">{holiday.name}</td>
+                  <td className="px-4 py-4">
+                    <span
+                      className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border ${
+                        holiday.type === 'regular'
+                          ? 'bg-rose-100 text-rose-700 border-rose-200'
+                          : 'bg-amber-100 text-amber-700 border-amber-200'
+                      }`}
+                    >
+                      {HOLIDAY_TYPE_LABELS[holiday.type]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-4">
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => setFormData(holiday)}
+                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                        title="Edit holiday"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onDelete(holiday)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete holiday"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default HolidayCalendar;
@@ -0,0 +1,75 @@
+/**
+ * PaginationControls Component
+ * Footer for cursor-paginated tables: loads the next page when scrolled into
+ * view, with a button and page size picker as manual controls
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { PAGE_SIZE_OPTIONS } from '../../config/constants';
+
+export interface PaginationControlsProps {
+  loadedCount: number;
+  hasMore: boolean;
+  loading: boolean;
+  pageSize: number;
+  onPageSizeChange: (pageSize: number) => void;
+  onLoadMore: () => void;
+}
+
+const PaginationControls: React.FC<PaginationControlsProps> = ({
+  loadedCount,
+  hasMore,
+  loading,
+  pageSize,
+  onPageSizeChange,
+  onLoadMore
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Observing again after every load fires once more if the footer is still in view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) onLoadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, loadedCount, onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex items-center justify-between pt-4 text-sm text-gray-600">
+      <label className="flex items-center space-x-2">
+        <span>Rows per page</span>
+        <select
+          value={pageSize}
+          onChange={(e) => onPageSizeChange(Number(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        >
+          {PAGE_SIZE_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="flex items-center space-x-3">
+        <span>{loadedCount} loaded</span>
+        {hasMore ? (
+          <button
+            onClick={onLoadMore}
+            disabled={loading}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        ) : (
+          <span>All records loaded</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaginationControls;
@@ -0,0 +1,81 @@
+/**
+ * PendingCalculationsPanel Component
+ * Lists every employee's punches awaiting calculation, with why the last retry
+ * failed and which ones are no longer retried in the background
+ */
+
+import { Hourglass, RefreshCw } from 'lucide-react';
+import React from 'react';
+import { MAX_CALCULATION_ATTEMPTS } from '../../config/constants';
+import type { PendingCalculation } from '../../types';
+import { formatTimeShort } from '../../utils/date.utils';
+
+interface PendingCalculationsPanelProps {
+  pending: PendingCalculation[];
+  onRetry: () => void;
+}
+
+const PendingCalculationsPanel: React.FC<PendingCalculationsPanelProps> = ({ pending, onRetry }) => {
+  const stoppedCount = pending.filter(session => session.calculationAttempts >= MAX_CALCULATION_ATTEMPTS).length;
+
+  return (
+    <div className="bg-amber-50 rounded-2xl shadow-lg p-6 mb-6 border border-amber-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2 text-amber-800">
+          <Hourglass className="w-5 h-5" />
+          <h2 className="text-lg font-semibold">
+            {pending.length} punch{pending.length === 1 ? '' : 'es'} awaiting calculation
+          </h2>
+        </div>
+        <button
+          onClick={onRetry}
+          className="flex items-center space-x-2 px-4 py-2 border border-amber-300 text-amber-800 rounded-lg hover:bg-amber-100 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          <span>Retry now</span>
+        </button>
+      </div>
+      {stoppedCount > 0 && (
+        <p className="mb-4 text-sm text-amber-800">
+          {stoppedCount} punch{stoppedCount === 1 ? ' has' : 'es have'} failed {MAX_CALCULATION_ATTEMPTS} times and{' '}
+          {stoppedCount === 1 ? 'is' : 'are'} no longer retried automatically. Fix the cause, then use Retry now.
+        </p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="border-b border-amber-200">
+            <tr>
+              <th className="text-left px-4 py-2 text-sm font-semibold text-amber-900">Employee</th>
+              <th className="text-left px-4 py-2 text-sm font-semibold text-amber-900">Date</th>
+              <th className="text-left px-4 py-2 text-sm font-semibold text-amber-900">Punch In</th>
+              <th className="text-left px-4 py-2 text-sm font-semibold text-amber-900">Punch Out</th>
+              <th className="text-left px-4 py-2 text-sm font-semibold text-amber-900">Failed Retries</th>
+              <th className="text-left px-4 py-2 text-sm font-semibold text-amber-900">Last Error</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-amber-100">
+            {pending.map((session) => (
+              <tr key={session.id}>
+                <td className="px-4 py-2 font-medium text-gray-900">{session.userName || session.userId}</td>
+                <td className="px-4 py-2 text-gray-700">{session.date}</td>
+                <td className="px-4 py-2 text-gray-700">{formatTimeShort(session.punchIn)}</td>
+                <td className="px-4 py-2 text-gray-700">{formatTimeShort(session.punchOut)}</td>
+                <td className="px-4 py-2 text-gray-700">
+                  {session.calculationAttempts}
+                  {session.calculationAttempts >= MAX_CALCULATION_ATTEMPTS && (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-red-100 text-red-700 rounded-full">
+                      Stopped
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-700">{session.calculationError || '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PendingCalculationsPanel;
@@ -0,0 +1,295 @@
+/**
+ * PunchDetailsDrawer Component
+ * Side drawer explaining how a punch's metrics were calculated
+ */
+
+import { X } from 'lucide-react';
+import React from 'react';
+import type {
+  AuditAction,
+  AuditLogEntry,
+  AuditSnapshot,
+  CalculationTrace,
+  GraceTrace,
+  Punch,
+  RoundingTrace,
+  TimelineRule
+} from '../../types';
+import { getStatusColor, getStatusLabel } from '../../utils/status.utils';
+
+interface PunchDetailsDrawerProps {
+  punch: Punch;
+  trace: CalculationTrace | null;
+  history: AuditLogEntry[];
+  loading: boolean;
+  onClose: () => void;
+}
+
+const RULE_LABELS: Record<TimelineRule, string> = {
+  regular: 'Regular',
+  break: 'Break (unpaid)',
+  preShiftOvertime: 'Pre-shift OT',
+  postShiftOvertime: 'Post-shift OT',
+  restDay: 'Rest Day',
+  restDayOvertime: 'Rest Day OT',
+  overtimeNightDiff: 'Night OT',
+  belowMinimumOvertime: 'Below OT Minimum',
+  unauthorizedOvertime: 'Unauthorized OT'
+};
+
+const RULE_COLORS: Record<TimelineRule, string> = {
+  regular: 'bg-green-500',
+  break: 'bg-gray-300',
+  preShiftOvertime: 'bg-blue-400',
+  postShiftOvertime: 'bg-blue-600',
+  restDay: 'bg-teal-500',
+  restDayOvertime: 'bg-teal-700',
+  overtimeNightDiff: 'bg-purple-600',
+  belowMinimumOvertime: 'bg-gray-400',
+  unauthorizedOvertime: 'bg-yellow-400'
+};
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  edit: 'Edited',
+  delete: 'Deleted',
+  restore: 'Restored'
+};
+
+const AUDIT_ACTION_COLORS: Record<AuditAction, string> = {
+  edit: 'bg-blue-500',
+  delete: 'bg-red-500',
+  restore: 'bg-green-500'
+};
+
+function formatSnapshotTime(iso: string | null | undefined): string {
+  if (!iso) return '–';
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * The fields an audited change moved, as before and after labels
+ */
+function describeChanges(entry: AuditLogEntry): Array<{ label: string; before: string; after: string }> {
+  const fields: Array<[string, (snapshot: AuditSnapshot | null) => string]> = [
+    ['Status', (snapshot) => snapshot?.status ?? '–'],
+    ['Date', (snapshot) => snapshot?.date ?? '–'],
+    ['Punch In', (snapshot) => formatSnapshotTime(snapshot?.punchIn)],
+    ['Punch Out', (snapshot) => formatSnapshotTime(snapshot?.punchOut)],
+    ['Total Hours', (snapshot) => snapshot?.metrics?.totalWorkedHours ?? '–']
+  ];
+
+  return fields
+    .map(([label, format]) => ({ label, before: format(entry.before), after: format(entry.after) }))
+    .filter(({ before, after }) => before !== after);
+}
+
+function describeRounding(rounding: RoundingTrace | null): string {
+  if (!rounding) return 'Not rounded';
+  const moved = rounding.adjustedMinutes === 0
+    ? 'unchanged'
+    : `${rounding.adjustedMinutes > 0 ? '+' : ''}${rounding.adjustedMinutes} min`;
+  return `${rounding.interval} min, ${rounding.direction} (${moved})`;
+}
+
+function describeGrace(grace: GraceTrace): string {
+  if (grace.rawMinutes === 0) return 'None';
+  return `${grace.rawMinutes} min → ${grace.reportedMinutes} min (${grace.graceMinutes} min grace, ${grace.mode})`;
+}
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between py-1.5 text-sm">
+    <span className="text-gray-500">{label}</span>
+    <span className="text-gray-900 font-medium text-right">{children}</span>
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="border-t border-gray-100 pt-4 mt-4">
+    <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-2">{title}</h3>
+    {children}
+  </div>
+);
+
+const PunchDetailsDrawer: React.FC<PunchDetailsDrawerProps> = ({ punch, trace, history, loading, onClose }) => {
+  // Trace times are shown in the schedule's timezone, which is what the rules use
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: trace?.timezone
+    });
+  const formatRange = (range: { start: string; end: string }) =>
+    `${formatTime(range.start)} – ${formatTime(range.end)}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="bg-white h-full w-full max-w-lg shadow-2xl overflow-y-auto p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Punch Details</h2>
+            <p className="text-gray-600">{punch.employeeName} · {punch.date}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mt-4">
+          <Row label="Punch In">{punch.punchIn}</Row>
+          <Row label="Punch Out">{punch.punchOut}</Row>
+          <Row label="Total Hours">{punch.totalHours}</Row>
+          <Row label="Status">
+            <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(punch.status)}`}>
+              {getStatusLabel(punch.status)}
+            </span>
+          </Row>
+        </div>
+
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            <span className="ml-3 text-gray-600">Calculating...</span>
+          </div>
+        )}
+
+        {!loading && trace && (
+          <>
+            <Section title="Shift">
+              <Row label="Scheduled">{formatRange(trace.shift)}</Row>
+              {trace.shift.laterSegments.map((segment, index) => (
+                <Row key={index} label={`Segment ${trace.shift.segmentIndex + index + 2}`}>{formatRange(segment)}</Row>
+              ))}
+              <Row label="Business Date">{trace.shift.businessDate}</Row>
+              <Row label="Timezone">{trace.timezone}</Row>
+              {trace.shift.isOvernightShift && <Row label="Overnight">Yes</Row>}
+              {trace.shift.isRestDay && <Row label="Rest Day">Yes</Row>}
+              {trace.shift.isFlexible && (
+                <Row label="Flexible">
+                  {trace.shift.requiredMinutes} min required, late after {formatTime(trace.shift.lateReference)}
+                </Row>
+              )}
+            </Section>
+
+            <Section title="Rounding">
+              <Row label="Punch In">
+                {formatTime(trace.punches.rawPunchIn)} → {formatTime(trace.punches.punchIn)}
+              </Row>
+              <Row label="Rule">{describeRounding(trace.punches.punchInRounding)}</Row>
+              <Row label="Punch Out">
+                {formatTime(trace.punches.rawPunchOut)} → {formatTime(trace.punches.punchOut)}
+              </Row>
+              <Row label="Rule">{describeRounding(trace.punches.punchOutRounding)}</Row>
+            </Section>
+
+            <Section title="Grace">
+              <Row label="Late">{describeGrace(trace.grace.late)}</Row>
+              <Row label="Undertime">{describeGrace(trace.grace.undertime)}</Row>
+            </Section>
+
+            <Section title="Breaks">
+              {trace.breaks.fixed.map((breakWindow, index) => (
+                <Row key={index} label="Fixed">{formatRange(breakWindow)} ({breakWindow.minutes} min)</Row>
+              ))}
+              {trace.breaks.autoDeductionMinutes > 0 && (
+                <Row label="Auto-deducted">{trace.breaks.autoDeductionMinutes} min</Row>
+              )}
+              <Row label="Total">{trace.breaks.totalMinutes} min</Row>
+            </Section>
+
+            <Section title="Night Differential">
+              <Row label="Window">
+                {String(trace.nightDifferential.window.startHour).padStart(2, '0')}:00 – {String(trace.nightDifferential.window.endHour).padStart(2, '0')}:00
+              </Row>
+              {trace.nightDifferential.intervals.length === 0 ? (
+                <Row label="Worked">None</Row>
+              ) : (
+                trace.nightDifferential.intervals.map((interval, index) => (
+                  <Row key={index} label="Worked">{formatRange(interval)} ({interval.minutes} min)</Row>
+                ))
+              )}
+            </Section>
+
+            <Section title="Overtime">
+              <Row label="Minimum">{trace.overtime.minimumMinutes} min</Row>
+              <Row label="Approved">
+                {trace.overtime.approvedMinutes === null ? 'Not required' : `${trace.overtime.approvedMinutes} min`}
+              </Row>
+              {trace.overtime.stretches.map((stretch, index) => (
+                <Row key={index} label={RULE_LABELS[`${stretch.category}Overtime`]}>
+                  {formatRange(stretch)} ({stretch.minutes} min
+                  {stretch.belowMinimum ? ', below minimum' : ''}
+                  {stretch.unauthorizedMinutes > 0 ? `, ${stretch.unauthorizedMinutes} unauthorized` : ''})
+                </Row>
+              ))}
+            </Section>
+
+            {trace.holidays.length > 0 && (
+              <Section title="Holidays">
+                {trace.holidays.map((holiday) => (
+                  <Row key={holiday.name} label={holiday.name}>{holiday.minutes} min ({holiday.type})</Row>
+                ))}
+              </Section>
+            )}
+
+            <Section title="Timeline">
+              <div className="space-y-2">
+                {trace.timeline.map((segment, index) => (
+                  <div key={index} className="flex items-center text-sm">
+                    <span className={`w-2 h-8 rounded-full mr-3 ${RULE_COLORS[segment.rule]}`}></span>
+                    <div className="flex-1">
+                      <div className="text-gray-900 font-medium">
+                        {RULE_LABELS[segment.rule]}
+                        {segment.nightDiff && segment.rule !== 'overtimeNightDiff' && (
+                          <span className="ml-2 text-xs text-purple-700">+ Night Diff</span>
+                        )}
+                        {segment.holiday && <span className="ml-2 text-xs text-red-600">{segment.holiday}</span>}
+                      </div>
+                      <div className="text-gray-500">{formatRange(segment)}</div>
+                    </div>
+                    <span className="text-gray-700 font-medium">{segment.minutes} min</span>
+                  </div>
+                ))}
+              </div>
+            </Section>
+          </>
+        )}
+
+        {!loading && (
+          <Section title="History">
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">No changes recorded</p>
+            ) : (
+              <ol className="relative border-l border-gray-200 ml-1.5 space-y-4">
+                {history.map((entry) => (
+                  <li key={entry.id} className="ml-4">
+                    <span className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full ${AUDIT_ACTION_COLORS[entry.action]}`}></span>
+                    <div className="text-sm font-medium text-gray-900">
+                      {AUDIT_ACTION_LABELS[entry.action]} by {entry.actor.name || entry.actor.email}
+                    </div>
+                    <div className="text-xs text-gray-500">{entry.createdAt?.toLocaleString() ?? 'Just now'}</div>
+                    <div className="text-sm text-gray-700 mt-1">{entry.reason}</div>
+                    {describeChanges(entry).map(({ label, before, after }) => (
+                      <div key={label} className="text-xs text-gray-500">
+                        {label}: {before} → {after}
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </Section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PunchDetailsDrawer;
@@ -3,13 +3,17 @@
  * Displays a table of punch records with actions
  */
 
-import { Edit, Eye, Trash2, Users } from 'lucide-react';
+import { ArrowDown, ArrowUp, Edit, Eye, Trash2, Users } from 'lucide-react';
 import React from 'react';
-import { type Punch } from '../../types';
+import { type Punch, type SortDirection } from '../../types';
 import { getStatusColor, getStatusLabel } from '../../utils/status.utils';
+import PaginationControls, { type PaginationControlsProps } from './PaginationControls';
 
 interface PunchTableProps {
   punches: Punch[];
+  sortDirection: SortDirection;
+  pagination: PaginationControlsProps;
+  onSortChange: (sortDirection: SortDirection) => void;
   onView: (punch: Punch) => void;
   onEdit: (punch: Punch) => void;
   onDelete: (punchId: string) => void;
@@ -17,6 +21,9 @@ interface PunchTableProps {
 
 const PunchTable: React.FC<PunchTableProps> = ({
   punches,
+  sortDirection,
+  pagination,
+  onSortChange,
   onView,
   onEdit,
   onDelete
@@ -25,7 +32,7 @@ const PunchTable: React.FC<PunchTableProps> = ({
     <div>
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-semibold text-gray-900">Employee Punches</h2>
-        <span className="text-sm text-gray-600">{punches.length} total punches</span>
+        <span className="text-sm text-gray-600">{punches.length} punches shown</span>
       </div>
       <div className="overflow-x-auto">
         <table className="w-full">
@@ -33,7 +40,16 @@ const PunchTable: React.FC<PunchTableProps> = ({
             <tr>
               <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Employee</th>
               <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Date</th>
-              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Punch In</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">
+                <button
+                  onClick={() => onSortChange(sortDirection === 'desc' ? 'asc' : 'desc')}
+                  className="flex items-center space-x-1 hover:text-gray-900"
+                  title={sortDirection === 'desc' ? 'Newest first' : 'Oldest first'}
+                >
+                  <span>Punch In</span>
+                  {sortDirection === 'desc' ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+                </button>
+              </th>
               <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Punch Out</th>
               <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Total Hours</th>
               <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Status</th>
@@ -59,8 +75,22 @@ const PunchTable: React.FC<PunchTableProps> = ({
                     </div>
                   </td>
                   <td className="px-4 py-4 text-gray-700">{punch.date}</td>
-                  <td className="px-4 py-4 text-gray-700">{punch.punchIn}</td>
-                  <td className="px-4 py-4 text-gray-700">{punch.punchOut}</td>
+                  <td className="px-4 py-4 text-gray-700">
+                    {punch.punchIn}
+                    {punch.roundedPunchIn && (
+                      <span className="block text-xs text-gray-500" title="Rounded for payroll">
+                        Rounded: {punch.roundedPunchIn}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 text-gray-700">
+                    {punch.punchOut}
+                    {punch.roundedPunchOut && (
+                      <span className="block text-xs text-gray-500" title="Rounded for payroll">
+                        Rounded: {punch.roundedPunchOut}
+                      </span>
+                    )}
+                  </td>
                   <td className="px-4 py-4 font-semibold text-gray-900">{punch.totalHours} hrs</td>
                   <td className="px-4 py-4">
                     <span
@@ -102,6 +132,7 @@ const PunchTable: React.FC<PunchTableProps> = ({
           </tbody>
         </table>
       </div>
+      <PaginationControls {...pagination} />
     </div>
   );
 };
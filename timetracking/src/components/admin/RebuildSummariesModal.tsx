@@ -0,0 +1,169 @@
+/**
+ * RebuildSummariesModal Component
+ * Modal for rebuilding daily summaries from attendance records
+ */
+
+import { RefreshCw } from 'lucide-react';
+import React, { useState } from 'react';
+import type { SummaryChange, SummaryRebuildReport, User } from '../../types';
+
+interface RebuildSummariesModalProps {
+  employees: User[];
+  report: SummaryRebuildReport | null;
+  running: boolean;
+  onRebuild: (userId: string, startDate: string, endDate: string) => void;
+  onClose: () => void;
+}
+
+const ACTION_COLORS: Record<SummaryChange['action'], string> = {
+  created: 'bg-green-100 text-green-700 border-green-200',
+  updated: 'bg-blue-100 text-blue-700 border-blue-200',
+  deleted: 'bg-red-100 text-red-700 border-red-200'
+};
+
+const RebuildSummariesModal: React.FC<RebuildSummariesModalProps> = ({
+  employees,
+  report,
+  running,
+  onRebuild,
+  onClose
+}) => {
+  const [formData, setFormData] = useState({ userId: '', startDate: '', endDate: '' });
+
+  const getEmployeeName = (userId: string) => {
+    const employee = employees.find((candidate) => candidate.userId === userId);
+    return employee?.name || employee?.email || userId;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Rebuild Daily Summaries</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Recalculates summaries from closed sessions only. Date ranges are widened to whole weeks.
+        </p>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Employee</label>
+            <select
+              value={formData.userId}
+              onChange={(e) => setFormData({ ...formData, userId: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All employees</option>
+              {employees.map((employee) => (
+                <option key={employee.userId} value={employee.userId}>
+                  {employee.name || employee.email}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
+            <input
+              type="date"
+              value={formData.startDate}
+              onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">End Date</label>
+            <input
+              type="date"
+              value={formData.endDate}
+              onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {report && (
+          <div className="mt-6">
+            <div className="grid grid-cols-5 gap-3 mb-4 text-center">
+              {[
+                ['Sessions', report.sessionCount],
+                ['Created', report.created],
+                ['Updated', report.updated],
+                ['Deleted', report.deleted],
+                ['Unchanged', report.unchanged]
+              ].map(([label, value]) => (
+                <div key={label} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <div className="text-xl font-bold text-gray-900">{value}</div>
+                  <div className="text-xs text-gray-600">{label}</div>
+                </div>
+              ))}
+            </div>
+
+            {report.errors.length > 0 && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {report.errors.map((error) => (
+                  <div key={`${error.userId}_${error.date}`}>
+                    {getEmployeeName(error.userId)} on {error.date} was left unchanged: {error.error}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.changes.length === 0 ? (
+              <p className="text-center text-gray-500 py-4">All summaries already match their punches</p>
+            ) : (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-semibold text-gray-700">Employee</th>
+                      <th className="px-4 py-2 text-left font-semibold text-gray-700">Date</th>
+                      <th className="px-4 py-2 text-left font-semibold text-gray-700">Change</th>
+                      <th className="px-4 py-2 text-left font-semibold text-gray-700">Fields</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {report.changes.map((change) => (
+                      <tr key={`${change.userId}_${change.date}`}>
+                        <td className="px-4 py-2 text-gray-900">{getEmployeeName(change.userId)}</td>
+                        <td className="px-4 py-2 text-gray-600">{change.date}</td>
+                        <td className="px-4 py-2">
+                          <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium border ${ACTION_COLORS[change.action]}`}>
+                            {change.action}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">
+                          {change.fields.map(({ field, before, after }) => (
+                            <div key={field}>
+                              {field}: {before ?? '–'} → {after ?? '–'}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex space-x-3 mt-8">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => onRebuild(formData.userId, formData.startDate, formData.endDate)}
+            disabled={running}
+            className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${running ? 'animate-spin' : ''}`} />
+            <span>{running ? 'Rebuilding...' : 'Rebuild'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RebuildSummariesModal;
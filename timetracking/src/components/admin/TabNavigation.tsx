@@ -3,12 +3,13 @@
  * Tab navigation for admin dashboard
  */
 
-import { Calendar, Clock, FileText } from 'lucide-react';
+import { Calendar, CalendarDays, Clock, FileText, Trash2, UserCog } from 'lucide-react';
 import React from 'react';
+import type { AdminTab } from '../../types';
 
 interface TabNavigationProps {
-  activeTab: 'punches' | 'daily' | 'weekly';
-  onTabChange: (tab: 'punches' | 'daily' | 'weekly') => void;
+  activeTab: AdminTab;
+  onTabChange: (tab: AdminTab) => void;
 }
 
 const TabNavigation: React.FC<TabNavigationProps> = ({ activeTab, onTabChange }) => {
@@ -25,6 +26,17 @@ const TabNavigation: React.FC<TabNavigationProps> = ({ activeTab, onTabChange })
         <Clock className="w-5 h-5" />
         <span>Punch Management</span>
       </button>
+      <button
+        onClick={() => onTabChange('deleted')}
+        className={`flex items-center space-x-2 px-6 py-4 font-semibold transition-colors ${
+          activeTab === 'deleted'
+            ? 'text-blue-600 border-b-2 border-blue-600'
+            : 'text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        <Trash2 className="w-5 h-5" />
+        <span>Deleted Punches</span>
+      </button>
       <button
         onClick={() => onTabChange('daily')}
         className={`flex items-center space-x-2 px-6 py-4 font-semibold transition-colors ${
@@ -47,6 +59,28 @@ const TabNavigation: React.FC<TabNavigationProps> = ({ activeTab, onTabChange })
         <FileText className="w-5 h-5" />
         <span>Weekly Reports</span>
       </button>
+      <button
+        onClick={() => onTabChange('holidays')}
+        className={`flex items-center space-x-2 px-6 py-4 font-semibold transition-colors ${
+          activeTab === 'holidays'
+            ? 'text-blue-600 border-b-2 border-blue-600'
+            : 'text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        <CalendarDays className="w-5 h-5" />
+        <span>Holidays</span>
+      </button>
+      <button
+        onClick={() => onTabChange('users')}
+        className={`flex items-center space-x-2 px-6 py-4 font-semibold transition-colors ${
+          activeTab === 'users'
+            ? 'text-blue-600 border-b-2 border-blue-600'
+            : 'text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        <UserCog className="w-5 h-5" />
+        <span>Users & Roles</span>
+      </button>
     </div>
   );
 };
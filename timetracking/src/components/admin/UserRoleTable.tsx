@@ -0,0 +1,99 @@
+/**
+ * UserRoleTable Component
+ * Displays user accounts with actions to grant or revoke the admin role
+ */
+
+import { ShieldOff, ShieldPlus, Users } from 'lucide-react';
+import React from 'react';
+import type { User } from '../../types';
+
+interface UserRoleTableProps {
+  users: User[];
+  currentUserId?: string;
+  onGrantAdmin: (user: User) => void;
+  onRevokeAdmin: (user: User) => void;
+}
+
+const UserRoleTable: React.FC<UserRoleTableProps> = ({ users, currentUserId, onGrantAdmin, onRevokeAdmin }) => {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Users & Roles</h2>
+        <span className="text-sm text-gray-600">{users.length} users</span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Name</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Email</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Position</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Role</th>
+              <th className="text-left px-4 py-3 text-sm font-semibold text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {users.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                  No users found
+                </td>
+              </tr>
+            ) : (
+              users.map((user) => (
+                <tr key={user.userId} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-4 py-4">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+                        <Users className="w-4 h-4 text-blue-600" />
+                      </div>
+                      <span className="font-medium text-gray-900">
+                        {user.name}
+                        {user.userId === currentUserId && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-4 text-gray-700">{user.email}</td>
+                  <td className="px-4 py-4 text-gray-700">{user.position || '–'}</td>
+                  <td className="px-4 py-4">
+                    {user.role === 'admin' ? (
+                      <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border bg-indigo-100 text-indigo-700 border-indigo-200">
+                        Admin
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border bg-gray-100 text-gray-700 border-gray-200">
+                        Employee
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-4">
+                    {user.role === 'admin' ? (
+                      <button
+                        onClick={() => onRevokeAdmin(user)}
+                        disabled={user.userId === currentUserId}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                        title="Revoke admin"
+                      >
+                        <ShieldOff className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => onGrantAdmin(user)}
+                        className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                        title="Make admin"
+                      >
+                        <ShieldPlus className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UserRoleTable;
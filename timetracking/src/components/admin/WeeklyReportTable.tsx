@@ -6,20 +6,41 @@
 import { TrendingUp, Users } from 'lucide-react';
 import React from 'react';
 import { type WeeklyReport } from '../../types';
+import PaginationControls, { type PaginationControlsProps } from './PaginationControls';
 
 interface WeeklyReportTableProps {
   reports: WeeklyReport[];
   selectedDate: string;
+  showAmounts: boolean;
+  pagination: PaginationControlsProps;
+  onShowAmountsChange: (showAmounts: boolean) => void;
 }
 
-const WeeklyReportTable: React.FC<WeeklyReportTableProps> = ({ reports, selectedDate }) => {
+const WeeklyReportTable: React.FC<WeeklyReportTableProps> = ({
+  reports,
+  selectedDate,
+  showAmounts,
+  pagination,
+  onShowAmountsChange
+}) => {
   return (
     <div>
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-semibold text-gray-900">Weekly Report</h2>
-        <div className="flex items-center space-x-2 text-sm text-gray-600">
-          <TrendingUp className="w-4 h-4" />
-          <span>Week of {selectedDate}</span>
+        <div className="flex items-center space-x-4 text-sm text-gray-600">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showAmounts}
+              onChange={(e) => onShowAmountsChange(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Show amounts</span>
+          </label>
+          <div className="flex items-center space-x-2">
+            <TrendingUp className="w-4 h-4" />
+            <span>Week of {selectedDate}</span>
+          </div>
         </div>
       </div>
       <div className="overflow-x-auto">
@@ -30,15 +51,20 @@ const WeeklyReportTable: React.FC<WeeklyReportTableProps> = ({ reports, selected
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Regular (hrs)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">OT (hrs)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">ND (hrs)</th>
+              <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Reg. Holiday (hrs)</th>
+              <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Special Holiday (hrs)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Late (min)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Undertime (min)</th>
               <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Total (hrs)</th>
+              {showAmounts && (
+                <th className="text-right px-4 py-3 text-sm font-semibold text-gray-700">Gross Pay</th>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
             {reports.length === 0 ? (
               <tr>
-                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                <td colSpan={showAmounts ? 10 : 9} className="px-4 py-8 text-center text-gray-500">
                   No weekly reports found for this week
                 </td>
               </tr>
@@ -51,20 +77,39 @@ const WeeklyReportTable: React.FC<WeeklyReportTableProps> = ({ reports, selected
                         <Users className="w-4 h-4 text-blue-600" />
                       </div>
                       <span className="font-medium text-gray-900">{report.employeeName}</span>
+                      {report.overtimeMode === 'weekly' && (
+                        <span
+                          className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border bg-indigo-100 text-indigo-700 border-indigo-200"
+                          title="Overtime is counted on total weekly hours"
+                        >
+                          Weekly OT
+                        </span>
+                      )}
                     </div>
                   </td>
                   <td className="px-4 py-4 text-right text-gray-700">{report.regularHours}</td>
-                  <td className="px-4 py-4 text-right text-blue-600 font-medium">{report.overtimeHours}</td>
+                  <td className="px-4 py-4 text-right text-blue-600 font-medium">
+                    {report.overtimeHours}
+                    {parseFloat(report.weeklyOvertimeHours || '0') > 0 && (
+                      <div className="text-xs text-indigo-600">{report.weeklyOvertimeHours} over weekly limit</div>
+                    )}
+                  </td>
                   <td className="px-4 py-4 text-right text-purple-600 font-medium">{report.nightDiffHours}</td>
+                  <td className="px-4 py-4 text-right text-rose-600 font-medium">{report.regularHolidayHours}</td>
+                  <td className="px-4 py-4 text-right text-amber-600 font-medium">{report.specialHolidayHours}</td>
                   <td className="px-4 py-4 text-right text-orange-600 font-medium">{report.lateMinutes}</td>
                   <td className="px-4 py-4 text-right text-red-600 font-medium">{report.undertimeMinutes}</td>
                   <td className="px-4 py-4 text-right font-bold text-gray-900">{report.totalHours}</td>
+                  {showAmounts && (
+                    <td className="px-4 py-4 text-right font-bold text-green-700">{report.grossPay ?? '—'}</td>
+                  )}
                 </tr>
               ))
             )}
           </tbody>
         </table>
       </div>
+      <PaginationControls {...pagination} />
     </div>
   );
 };
@@ -1,19 +1,16 @@
-import { addDoc, collection, doc, getDoc, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
-import { Calendar, Clock, LogIn, LogOut, Timer, User } from 'lucide-react';
-import React, { useEffect, useState } from 'react';
-import { db } from '../firebase';
-import { ApiService } from '../services/api.service';
+import { Calendar, Clock, Hourglass, LogIn, LogOut, Timer, User } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_CALCULATION_POLICY, DEFAULT_SCHEDULE } from '../config/constants';
+import { FirebaseService } from '../services/firebase.service';
+import { SummaryService } from '../services/summary.service';
+import { calculateTimeMetrics } from '../shared/timeCalculator';
+import type { User as UserProfile } from '../types';
 import { getTodayISO } from '../utils/date.utils';
 
 interface User {
   name: string;
   email: string;
   userId?: string;
-  schedule?: {
-    start: string;
-    end: string;
-    timezone?: string;
-  };
 }
 
 interface PunchClockProps {
@@ -23,6 +20,7 @@ interface PunchClockProps {
 
 interface TimeEntry {
   id: string;
+  date?: string;
   punchIn: Date;
   punchOut?: Date;
   duration?: number;
@@ -35,71 +33,6 @@ interface TimeEntry {
   };
 }
 
-/**
- * Update or create daily summary in Firestore
- */
-async function updateDailySummary(userId: string, date: string, metrics: any) {
-  try {
-    console.log('=== Updating Daily Summary ===');
-    console.log('User ID:', userId);
-    console.log('Date:', date);
-    console.log('Metrics:', metrics);
-
-    const summaryId = `${userId}_${date}`;
-    const summaryRef = doc(db, 'dailySummary', summaryId);
-
-    console.log('Summary ID:', summaryId);
-
-    // Get existing summary if it exists
-    const summarySnap = await getDoc(summaryRef);
-
-    if (summarySnap.exists()) {
-      // Update existing summary by adding new metrics
-      const existing = summarySnap.data();
-      console.log('Existing summary found:', existing);
-
-      const updatedData = {
-        totalWorkedHours: (parseFloat(existing.totalWorkedHours || '0') + parseFloat(metrics.totalWorkedHours)).toFixed(2),
-        regularHours: (parseFloat(existing.regularHours || '0') + parseFloat(metrics.regularHours)).toFixed(2),
-        overtimeHours: (parseFloat(existing.overtimeHours || '0') + parseFloat(metrics.overtimeHours)).toFixed(2),
-        nightDiffHours: (parseFloat(existing.nightDiffHours || '0') + parseFloat(metrics.nightDiffHours)).toFixed(2),
-        totalLateMinutes: (existing.totalLateMinutes || 0) + metrics.lateMinutes,
-        totalUndertimeMinutes: (existing.totalUndertimeMinutes || 0) + metrics.undertimeMinutes,
-        lastUpdated: serverTimestamp()
-      };
-
-      console.log('Updating with:', updatedData);
-      await updateDoc(summaryRef, updatedData);
-      console.log('✓ Daily summary updated successfully');
-    } else {
-      // Create new summary
-      console.log('No existing summary, creating new one');
-
-      const newSummary = {
-        userId,
-        date,
-        totalWorkedHours: metrics.totalWorkedHours,
-        regularHours: metrics.regularHours,
-        overtimeHours: metrics.overtimeHours,
-        nightDiffHours: metrics.nightDiffHours,
-        totalLateMinutes: metrics.lateMinutes,
-        totalUndertimeMinutes: metrics.undertimeMinutes,
-        createdAt: serverTimestamp(),
-        lastUpdated: serverTimestamp()
-      };
-
-      console.log('Creating new summary:', newSummary);
-      await setDoc(summaryRef, newSummary);
-      console.log('✓ Daily summary created successfully');
-    }
-
-    console.log('Daily summary operation completed for', date);
-  } catch (error) {
-    console.error('❌ Error updating daily summary:', error);
-    alert(`Failed to update daily summary: ${error}`);
-  }
-}
-
 const PunchClock: React.FC<PunchClockProps> = ({ user, onLogout }) => {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [isPunchedIn, setIsPunchedIn] = useState(false);
@@ -108,6 +41,38 @@ const PunchClock: React.FC<PunchClockProps> = ({ user, onLogout }) => {
   const [elapsedTime, setElapsedTime] = useState(0);
   // const [showDashboard, setShowDashboard] = useState(false);
   // const [dashboardRefreshKey, setDashboardRefreshKey] = useState(0);
+  // Punches awaiting calculation; the admin dashboard retries them
+  const [pendingCount, setPendingCount] = useState(0);
+  // The saved schedule and overtime policy; the signed-in user does not carry them
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+
+  useEffect(() => {
+    FirebaseService.getUser(user.userId || user.email)
+      .then(setProfile)
+      .catch((error) => console.error('Error loading user profile:', error));
+  }, [user.userId, user.email]);
+
+  const loadPendingCount = useCallback(() => {
+    FirebaseService.getPendingCalculations(user.userId || user.email)
+      .then(pending => setPendingCount(pending.length))
+      .catch((error) => console.error('Error loading pending calculations:', error));
+  }, [user.userId, user.email]);
+
+  useEffect(() => {
+    loadPendingCount();
+  }, [loadPendingCount]);
+
+  // Resume a session left open, e.g. after a reload or on another device
+  useEffect(() => {
+    FirebaseService.getOpenSession(user.userId || user.email)
+      .then(session => {
+        if (!session) return;
+        setCurrentSession({ id: session.id, date: session.date, punchIn: session.punchIn });
+        setIsPunchedIn(true);
+        setElapsedTime(Math.floor((Date.now() - session.punchIn.getTime()) / 1000));
+      })
+      .catch((error) => console.error('Error loading open session:', error));
+  }, [user.userId, user.email]);
 
   // Update current time every second
   useEffect(() => {
@@ -118,6 +83,25 @@ const PunchClock: React.FC<PunchClockProps> = ({ user, onLogout }) => {
     return () => clearInterval(timer);
   }, []);
 
+  // Live metrics for the open session, as if punching out now
+  const previewMetrics = useMemo(() => {
+    if (!isPunchedIn || !currentSession) return null;
+
+    try {
+      return calculateTimeMetrics(
+        { punchIn: currentSession.punchIn, punchOut: currentTime },
+        profile?.schedule || DEFAULT_SCHEDULE,
+        {
+          ...DEFAULT_CALCULATION_POLICY,
+          overtime: { ...DEFAULT_CALCULATION_POLICY.overtime, ...profile?.overtimePolicy }
+        }
+      );
+    } catch (error) {
+      console.error('Error previewing time metrics:', error);
+      return null;
+    }
+  }, [isPunchedIn, currentSession, currentTime, profile]);
+
   // Update elapsed time when punched in
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
@@ -139,22 +123,18 @@ const PunchClock: React.FC<PunchClockProps> = ({ user, onLogout }) => {
       const punchInTime = new Date();
       const todayDate = getTodayISO(); // Use utility for consistent date
       console.log('Punch In - Date:', todayDate); // Debug log
-      const attendanceData = {
-        userId: user.userId || user.email,
-        userEmail: user.email,
-        userName: user.name,
-        punchIn: serverTimestamp(),
-        punchOut: null,
-        type: 'punch_in',
-        timestamp: serverTimestamp(),
-        date: todayDate // YYYY-MM-DD format
-      };
 
-      // Save to Firestore attendance collection
-      const docRef = await addDoc(collection(db, 'attendance'), attendanceData);
+      // Open a session in Firestore; todayDate is YYYY-MM-DD
+      const sessionId = await FirebaseService.openSession(
+        user.userId || user.email,
+        user.email,
+        user.name,
+        todayDate
+      );
 
       const newSession: TimeEntry = {
-        id: docRef.id, // Use Firestore document ID
+        id: sessionId, // Use Firestore document ID
+        date: todayDate,
         punchIn: punchInTime,
       };
 
@@ -162,7 +142,7 @@ const PunchClock: React.FC<PunchClockProps> = ({ user, onLogout }) => {
       setIsPunchedIn(true);
       setElapsedTime(0);
 
-      console.log('Punch in saved to Firestore with ID:', docRef.id);
+      console.log('Punch in saved to Firestore with ID:', sessionId);
     } catch (error) {
       console.error('Error saving punch in to Firestore:', error);
       alert('Failed to save punch in. Please try again.');
@@ -175,96 +155,21 @@ const PunchClock: React.FC<PunchClockProps> = ({ user, onLogout }) => {
         const punchOutTime = new Date();
         const duration = Math.floor((punchOutTime.getTime() - currentSession.punchIn.getTime()) / 1000);
 
-        // Default schedule if user doesn't have one
-        const schedule = user.schedule || {
-          start: '09:00',
-          end: '18:00',
-          timezone: 'Asia/Manila' // Philippine Time
-        };
+        // Close the session as pending, then have it calculated, which saves its
+        // metrics and rebuilds the day's summary from all of the day's sessions.
+        // If that fails the session stays pending for an admin's reconciler
+        console.log('Punch Out - Date:', currentSession.date); // Debug log
+        await FirebaseService.closeSession(currentSession.id);
 
-        // Calculate time metrics using the backend API
         let calculatedMetrics = null;
         try {
-          calculatedMetrics = await ApiService.calculateTimeMetrics(
-            currentSession.punchIn,
-            punchOutTime,
-            schedule
-          );
+          calculatedMetrics = await SummaryService.calculateSession(currentSession.id);
           console.log('Calculated time metrics:', calculatedMetrics);
-        } catch (apiError) {
-          console.error('Error calling time calculation API:', apiError);
-          // Continue without metrics if API fails
-        }
-
-        // Update the existing Firestore document with punch out data and metrics
-        const attendanceRef = doc(db, 'attendance', currentSession.id);
-        const updateData: any = {
-          punchOut: serverTimestamp(),
-          duration: duration,
-          type: 'completed'
-        };
-
-        // Add calculated metrics if available
-        if (calculatedMetrics) {
-          updateData.metrics = {
-            totalWorkedHours: calculatedMetrics.totalWorkedHours,
-            totalWorkedMinutes: calculatedMetrics.totalWorkedMinutes,
-            regularHours: calculatedMetrics.regularHours,
-            regularMinutes: calculatedMetrics.regularMinutes,
-            overtimeHours: calculatedMetrics.overtimeHours,
-            overtimeMinutes: calculatedMetrics.overtimeMinutes,
-            nightDiffHours: calculatedMetrics.nightDiffHours,
-            nightDiffMinutes: calculatedMetrics.nightDiffMinutes,
-            lateMinutes: calculatedMetrics.lateMinutes,
-            undertimeMinutes: calculatedMetrics.undertimeMinutes
-          };
-          updateData.regularHours = parseFloat(calculatedMetrics.regularHours);
-          updateData.overtimeHours = parseFloat(calculatedMetrics.overtimeHours);
-          updateData.nightDiffHours = parseFloat(calculatedMetrics.nightDiffHours);
-          updateData.lateMinutes = calculatedMetrics.lateMinutes;
-          updateData.undertimeMinutes = calculatedMetrics.undertimeMinutes;
-        }
-
-        await updateDoc(attendanceRef, updateData);
-
-        // Also create a separate punch_out record for tracking individual punches
-        const todayDate = getTodayISO(); // Use utility for consistent date
-        console.log('Punch Out - Date:', todayDate); // Debug log
-        const punchOutData: any = {
-          userId: user.userId || user.email,
-          userEmail: user.email,
-          userName: user.name,
-          punchOut: serverTimestamp(),
-          type: 'punch_out',
-          timestamp: serverTimestamp(),
-          date: todayDate,
-          relatedSessionId: currentSession.id,
-          duration: duration
-        };
-
-        if (calculatedMetrics) {
-          punchOutData.metrics = updateData.metrics;
+        } catch (calculationError) {
+          console.error('Error calculating punch out:', calculationError);
+          loadPendingCount();
         }
 
-        await addDoc(collection(db, 'attendance'), punchOutData);
-
-        // Always update daily summary, even with zero metrics
-        // This ensures new users appear in daily/weekly reports
-        const metricsToSave = calculatedMetrics || {
-          totalWorkedHours: '0.00',
-          regularHours: '0.00',
-          overtimeHours: '0.00',
-          nightDiffHours: '0.00',
-          lateMinutes: 0,
-          undertimeMinutes: 0
-        };
-
-        await updateDailySummary(
-          user.userId || user.email,
-          todayDate,
-          metricsToSave
-        );
-
         const completedEntry: TimeEntry = {
           ...currentSession,
           punchOut: punchOutTime,
@@ -405,6 +310,17 @@ const PunchClock: React.FC<PunchClockProps> = ({ user, onLogout }) => {
             </div>
           </div>
 
+          {/* Punches awaiting calculation */}
+          {pendingCount > 0 && (
+            <div className="mb-6 flex items-center justify-center space-x-2 px-4 py-3 bg-amber-50 text-amber-800 rounded-lg border border-amber-200">
+              <Hourglass className="w-4 h-4" />
+              <span className="text-sm">
+                {pendingCount} punch{pendingCount === 1 ? '' : 'es'} awaiting calculation. Your hours will update
+                once the server is reachable again.
+              </span>
+            </div>
+          )}
+
           {/* Current Session Timer */}
           {isPunchedIn && currentSession && (
             <div className="mb-8 p-6 bg-gradient-to-r from-indigo-50 to-purple-50 rounded-xl border border-indigo-100">
@@ -421,6 +337,35 @@ const PunchClock: React.FC<PunchClockProps> = ({ user, onLogout }) => {
                 </p>
                 <p className="text-sm text-gray-500">Elapsed Time</p>
               </div>
+
+              {/* Live Metrics Preview */}
+              {previewMetrics && (
+                <div className="grid grid-cols-5 gap-2 mt-6 pt-4 border-t border-indigo-100">
+                  <div className="text-center">
+                    <p className="text-sm font-semibold text-green-600">{previewMetrics.regularHours}h</p>
+                    <p className="text-xs text-gray-500">Regular</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-sm font-semibold text-blue-600">{previewMetrics.overtimeHours}h</p>
+                    <p className="text-xs text-gray-500">OT</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-sm font-semibold text-purple-600">{previewMetrics.nightDiffHours}h</p>
+                    <p className="text-xs text-gray-500">Night Diff</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-sm font-semibold text-red-600">{previewMetrics.lateMinutes}m</p>
+                    <p className="text-xs text-gray-500">Late</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-sm font-semibold text-orange-600">{previewMetrics.undertimeMinutes}m</p>
+                    <p className="text-xs text-gray-500">Undertime</p>
+                  </div>
+                  <p className="col-span-5 text-xs text-center text-gray-400 mt-1">
+                    If you punched out now
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
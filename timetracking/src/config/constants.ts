@@ -2,22 +2,54 @@
  * Application Constants
  */
 
+import type { PayMultipliers, StorageAdapter } from '../types';
+
 export const APP_NAME = 'Mini HCM Time Tracking';
 
-export const DEFAULT_SCHEDULE = {
-  start: '09:00',
-  end: '18:00',
-  timezone: 'Asia/Manila'
-};
+// The default schedule and policy live with the calculator so the servers use them too
+export {
+  DEFAULT_CALCULATION_POLICY,
+  DEFAULT_SCHEDULE,
+  DEFAULT_WEEKLY_OVERTIME_THRESHOLD_MINUTES,
+  NIGHT_DIFF_END_HOUR,
+  NIGHT_DIFF_START_HOUR
+} from '../shared/calculationDefaults';
 
 export const DEFAULT_TIMEZONE = 'Asia/Manila';
 
-export const NIGHT_DIFF_START_HOUR = 22; // 10:00 PM
-export const NIGHT_DIFF_END_HOUR = 6; // 6:00 AM
+// How often punches saved without metrics are retried
+export const RECONCILE_INTERVAL_MS = 60000;
+
+// Failed retries after which a pending punch is left for an admin to retry by hand
+export const MAX_CALCULATION_ATTEMPTS = 5;
+
+// Times a daily summary is recalculated when its sessions change mid-update
+export const SUMMARY_UPDATE_MAX_ATTEMPTS = 3;
+
+// Set VITE_STORAGE_ADAPTER to memory or local to run without a Firebase project
+export const STORAGE_ADAPTER: StorageAdapter =
+  import.meta.env.VITE_STORAGE_ADAPTER === 'memory' || import.meta.env.VITE_STORAGE_ADAPTER === 'local'
+    ? import.meta.env.VITE_STORAGE_ADAPTER
+    : 'firestore';
+
+// localStorage key the local storage adapter saves its data under
+export const LOCAL_STORAGE_KEY = 'timetracking:data';
 
-export const ADMIN_CREDENTIALS = {
-  email: 'admin@company.com',
-  password: 'admin123'
+// Rows the admin tables load per page; more than 7 so a page of weekly
+// summaries always ends on a whole employee
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+export const DEFAULT_PAGE_SIZE = 25;
+
+// Premium pay multipliers of the hourly rate; OT+ND has its own combined rate
+export const DEFAULT_PAY_MULTIPLIERS: PayMultipliers = {
+  regular: 1.0,
+  overtime: 1.25,
+  nightDiff: 1.1,
+  overtimeNightDiff: 1.375,
+  restDay: 1.3,
+  restDayOvertime: 1.69,
+  regularHoliday: 2.0,
+  specialHoliday: 1.3
 };
 
 export const POSITION_OPTIONS = [
@@ -37,14 +69,27 @@ export const DATE_FORMATS = {
 
 export const COLLECTIONS = {
   USERS: 'users',
-  ATTENDANCE: 'attendance',
-  DAILY_SUMMARY: 'dailySummary'
+  SESSIONS: 'sessions',
+  AUDIT_LOG: 'auditLog',
+  DAILY_SUMMARY: 'dailySummary',
+  HOLIDAYS: 'holidays',
+  OVERTIME_APPROVALS: 'overtimeApprovals'
 };
 
-export const ATTENDANCE_TYPES = {
-  PUNCH_IN: 'punch_in',
-  PUNCH_OUT: 'punch_out',
-  COMPLETED: 'completed'
+export const SESSION_STATUSES = {
+  OPEN: 'open',
+  CLOSED: 'closed',
+  VOIDED: 'voided'
+} as const;
+
+export const HOLIDAY_TYPES = {
+  REGULAR: 'regular',
+  SPECIAL: 'special'
+} as const;
+
+export const HOLIDAY_TYPE_LABELS = {
+  regular: 'Regular Holiday',
+  special: 'Special Non-Working Day'
 } as const;
 
 export const USER_ROLES = {
@@ -58,5 +103,7 @@ export const PUNCH_STATUSES = {
   OVERTIME: 'OT',
   NIGHT_DIFF: 'ND',
   LATE: 'late',
-  UNDERTIME: 'undertime'
+  UNDERTIME: 'undertime',
+  REST_DAY: 'rest_day',
+  PENDING: 'pending'
 } as const;
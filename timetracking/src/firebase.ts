@@ -10,5 +10,8 @@ const firebaseConfig = {
 };
 
 const app = initializeApp(firebaseConfig);
-export const auth = getAuth(app);
 export const db = getFirestore(app);
+
+// Auth throws without an API key, so it is only set up once it is used; the
+// in-memory storage adapters run without a Firebase project
+export const getFirebaseAuth = () => getAuth(app);
@@ -4,224 +4,390 @@
  */
 
 import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_PAGE_SIZE, DEFAULT_PAY_MULTIPLIERS, DEFAULT_SCHEDULE } from '../config/constants';
 import { ApiService } from '../services/api.service';
 import { FirebaseService } from '../services/firebase.service';
-import type { DailyReport, Punch, TimeMetrics, WeeklyReport } from '../types';
+import { SummaryService } from '../services/summary.service';
+import type {
+  AdminTab,
+  AuditActor,
+  AuditLogEntry,
+  CalculationTrace,
+  ClosedAttendanceRecord,
+  DailyReport,
+  DailySummary,
+  Punch,
+  PunchStatus,
+  SortDirection,
+  TimeMetrics,
+  WeeklyReport
+} from '../types';
 import { convertTo24Hour } from '../utils/date.utils';
+import { getMetricHours, sumMetricHours } from '../utils/metrics.utils';
 import { determinePunchStatus } from '../utils/status.utils';
 
-export function useAdminDashboard(selectedDate: string, activeTab: 'punches' | 'daily' | 'weekly') {
-  const [punches, setPunches] = useState<Punch[]>([]);
-  const [dailyReports, setDailyReports] = useState<DailyReport[]>([]);
-  const [weeklyReports, setWeeklyReports] = useState<WeeklyReport[]>([]);
-  const [loading, setLoading] = useState(true);
+/**
+ * Gross pay for an employee's summaries, or undefined if they have no pay rate
+ */
+async function calculateEmployeePay(userId: string, summaries: DailySummary[]): Promise<string | undefined> {
+  try {
+    const user = await FirebaseService.getUser(userId);
+    if (!user?.payRate) return undefined;
+
+    const pay = await ApiService.calculateGrossPay(summaries as object[] as TimeMetrics[], user.payRate, DEFAULT_PAY_MULTIPLIERS);
+    return pay.grossPay;
+  } catch (error) {
+    console.error('Error calculating pay for', userId, error);
+    return undefined;
+  }
+}
 
-  // Fetch attendance data for selected date
-  const fetchAttendanceData = useCallback(async () => {
-    try {
-      setLoading(true);
-      console.log('=== Admin Fetching Attendance ===');
-      console.log('Selected Date:', selectedDate);
-
-      const attendanceRecords = await FirebaseService.getAttendanceByDate(selectedDate);
-      console.log('Documents found:', attendanceRecords.length);
-
-      // Fetch user names for all records
-      const punchPromises = attendanceRecords.map(async (record) => {
-        const userName = await FirebaseService.getUserName(record.userId || record.userEmail);
-
-        const punchInDate = record.punchIn?.toDate
-          ? record.punchIn.toDate()
-          : new Date(record.punchInTime || record.punchIn);
-        const punchOutDate = record.punchOut?.toDate
-          ? record.punchOut.toDate()
-          : new Date(record.punchOutTime || record.punchOut);
-
-        // Determine status based on metrics
-        const metrics = record.metrics || {};
-        const overtimeHours = parseFloat(metrics.overtimeHours || 0);
-        const nightDiffHours = parseFloat(metrics.nightDiffHours || 0);
-        const lateMinutes = metrics.lateMinutes || 0;
-        const undertimeMinutes = metrics.undertimeMinutes || 0;
-
-        const status = determinePunchStatus(
-          overtimeHours,
-          nightDiffHours,
-          lateMinutes,
-          undertimeMinutes
-        );
+/**
+ * A session as a row of the punches table
+ */
+async function toPunch(record: ClosedAttendanceRecord): Promise<Punch> {
+  const userName = await FirebaseService.getUserName(record.userId || record.userEmail);
+
+  const punchInDate = record.punchIn;
+  const punchOutDate = record.punchOut;
+
+  // Determine status based on metrics
+  const metrics = record.metrics;
+  const overtimeHours = parseFloat(metrics?.overtimeHours || '0');
+  const nightDiffHours = parseFloat(metrics?.nightDiffHours || '0');
+  const lateMinutes = metrics?.lateMinutes || 0;
+  const undertimeMinutes = metrics?.undertimeMinutes || 0;
+
+  // Punches saved while the calculation was failing have no metrics yet
+  const status: PunchStatus = record.calculationStatus === 'pending' ? 'pending' : determinePunchStatus(
+    overtimeHours,
+    nightDiffHours,
+    lateMinutes,
+    undertimeMinutes,
+    Boolean(metrics?.isRestDay),
+    metrics?.unauthorizedOvertimeMinutes || 0
+  );
+
+  // Show the rounded punch alongside the raw one when rounding moved it
+  const formatPunch = (date: Date) =>
+    date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  const punchInLabel = formatPunch(punchInDate);
+  const punchOutLabel = formatPunch(punchOutDate);
+  const roundedPunchIn = metrics?.punchInTime && formatPunch(new Date(metrics.punchInTime));
+  const roundedPunchOut = metrics?.punchOutTime && formatPunch(new Date(metrics.punchOutTime));
+
+  return {
+    id: record.id,
+    employeeName: userName,
+    date: record.date,
+    punchIn: punchInLabel,
+    punchOut: punchOutLabel,
+    roundedPunchIn: roundedPunchIn !== punchInLabel ? roundedPunchIn : undefined,
+    roundedPunchOut: roundedPunchOut !== punchOutLabel ? roundedPunchOut : undefined,
+    status,
+    totalHours: metrics?.totalWorkedHours || '0.00'
+  };
+}
+
+/**
+ * A daily summary as a row of the daily report
+ */
+async function toDailyReport(summary: DailySummary, showAmounts: boolean): Promise<DailyReport> {
+  const userName = await FirebaseService.getUserName(summary.userId);
+
+  // Safely handle NaN and undefined values
+  const safeInt = (value: any): string => {
+    const num = parseInt(value);
+    return isNaN(num) ? '0' : num.toString();
+  };
+
+  const grossPay = showAmounts
+    ? await calculateEmployeePay(summary.userId, [summary])
+    : undefined;
+
+  return {
+    userId: summary.userId,
+    employeeName: userName,
+    status: 'present' as const,
+    grossPay,
+    regular: getMetricHours(summary, 'regular'),
+    overtime: getMetricHours(summary, 'overtime'),
+    unauthorizedOvertime: getMetricHours(summary, 'unauthorizedOvertime'),
+    nightDiff: getMetricHours(summary, 'nightDiff'),
+    regularHoliday: getMetricHours(summary, 'regularHoliday'),
+    specialHoliday: getMetricHours(summary, 'specialHoliday'),
+    late: safeInt(summary.totalLateMinutes),
+    undertime: safeInt(summary.totalUndertimeMinutes),
+    total: getMetricHours(summary, 'totalWorked')
+  };
+}
+
+/**
+ * Daily report rows for employees with no summary on a date that is a
+ * scheduled workday for them
+ */
+async function getAbsentReports(
+  date: string,
+  reportedUserIds: Set<string | undefined>,
+  showAmounts: boolean
+): Promise<DailyReport[]> {
+  const employees = await FirebaseService.getEmployees();
+  const absentReports = await Promise.all(
+    employees
+      .filter((employee) => employee.userId && !reportedUserIds.has(employee.userId))
+      .map(async (employee): Promise<DailyReport | null> => {
+        try {
+          const [day] = await ApiService.classifyScheduleDays(
+            employee.schedule || DEFAULT_SCHEDULE,
+            date,
+            date
+          );
+          if (day?.status !== 'absent') return null;
+        } catch (classifyError) {
+          console.error('Error classifying day for', employee.userId, classifyError);
+          return null;
+        }
 
         return {
-          id: record.id,
-          employeeName: userName,
-          date: record.date,
-          punchIn: punchInDate.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
-          punchOut: punchOutDate.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
-          status,
-          totalHours: metrics.totalWorkedHours || '0.00'
+          userId: employee.userId,
+          employeeName: employee.name || employee.email,
+          status: 'absent',
+          regular: '0.00',
+          overtime: '0.00',
+          nightDiff: '0.00',
+          regularHoliday: '0.00',
+          specialHoliday: '0.00',
+          late: '0',
+          undertime: '0',
+          total: '0.00',
+          grossPay: showAmounts ? '0.00' : undefined
         };
-      });
+      })
+  );
 
-      const resolvedPunches = await Promise.all(punchPromises);
+  return absentReports.filter((report): report is DailyReport => report !== null);
+}
 
-      // Sort by punch in time (newest first)
-      resolvedPunches.sort((a, b) => {
-        const aRecord = attendanceRecords.find(r => r.id === a.id);
-        const bRecord = attendanceRecords.find(r => r.id === b.id);
+/**
+ * Weekly report rows for a week's summaries, one per user
+ */
+async function toWeeklyReports(summaries: DailySummary[], showAmounts: boolean): Promise<WeeklyReport[]> {
+  const userWeeklySummary: Record<string, WeeklyReport> = {};
+  const userSummaries: Record<string, DailySummary[]> = {};
+
+  // Group the week's summaries by user
+  summaries.forEach((summary) => {
+    userSummaries[summary.userId] = [...(userSummaries[summary.userId] || []), summary];
+  });
+
+  // Helper to safely parse numbers
+  const safeParseInt = (value: any): number => {
+    const num = parseInt(value);
+    return isNaN(num) ? 0 : num;
+  };
 
-        const aTime = aRecord?.punchIn?.toDate ? aRecord.punchIn.toDate() : new Date(aRecord?.punchInTime || aRecord?.punchIn);
-        const bTime = bRecord?.punchIn?.toDate ? bRecord.punchIn.toDate() : new Date(bRecord?.punchInTime || bRecord?.punchIn);
+  // Add up each user's week in minutes, then format it as hours
+  Object.entries(userSummaries).forEach(([userId, days]) => {
+    const sumMinutes = (field: 'totalLateMinutes' | 'totalUndertimeMinutes') =>
+      days.reduce((total, day) => total + safeParseInt(day[field]), 0).toString();
+
+    userWeeklySummary[userId] = {
+      employeeName: userId,
+      regularHours: sumMetricHours(days, 'regular'),
+      overtimeHours: sumMetricHours(days, 'overtime'),
+      nightDiffHours: sumMetricHours(days, 'nightDiff'),
+      regularHolidayHours: sumMetricHours(days, 'regularHoliday'),
+      specialHolidayHours: sumMetricHours(days, 'specialHoliday'),
+      lateMinutes: sumMinutes('totalLateMinutes'),
+      undertimeMinutes: sumMinutes('totalUndertimeMinutes'),
+      totalHours: sumMetricHours(days, 'totalWorked'),
+      weeklyOvertimeHours: sumMetricHours(days, 'weeklyOvertime'),
+      overtimeMode: days.some(day => day.overtimeMode === 'weekly') ? 'weekly' : undefined
+    };
+  });
+
+  // Fetch user names, and the week's gross pay when amounts are shown
+  const userIds = Object.keys(userWeeklySummary);
+  await Promise.all(
+    userIds.map(async (userId) => {
+      const userName = await FirebaseService.getUserName(userId);
+      userWeeklySummary[userId].employeeName = userName;
+      if (showAmounts) {
+        userWeeklySummary[userId].grossPay = await calculateEmployeePay(userId, userSummaries[userId]);
+      }
+    })
+  );
 
-        return bTime.getTime() - aTime.getTime(); // Newest first
-      });
+  return Object.values(userWeeklySummary);
+}
+
+/**
+ * The Sunday-Saturday week containing a date
+ */
+function getWeekRange(selectedDate: string): { startStr: string; endStr: string } {
+  const selectedDateObj = new Date(selectedDate);
+  const weekStart = new Date(selectedDateObj);
+  weekStart.setDate(selectedDateObj.getDate() - selectedDateObj.getDay());
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekStart.getDate() + 6);
+
+  return {
+    startStr: weekStart.toISOString().split('T')[0],
+    endStr: weekEnd.toISOString().split('T')[0]
+  };
+}
+
+export function useAdminDashboard(
+  selectedDate: string,
+  activeTab: AdminTab,
+  actor: AuditActor,
+  showAmounts: boolean = false
+) {
+  const [punches, setPunches] = useState<Punch[]>([]);
+  const [dailyReports, setDailyReports] = useState<DailyReport[]>([]);
+  const [weeklyReports, setWeeklyReports] = useState<WeeklyReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [punchSort, setPunchSort] = useState<SortDirection>('desc');
 
-      setPunches(resolvedPunches);
+  // Cursors for the next page of each table; null once every page is loaded
+  const [punchesCursor, setPunchesCursor] = useState<string | null>(null);
+  const [dailyCursor, setDailyCursor] = useState<string | null>(null);
+  const [weeklyCursor, setWeeklyCursor] = useState<string | null>(null);
+
+  // Fetch the first page of attendance data for selected date
+  const fetchAttendanceData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const page = await FirebaseService.getAttendanceByDate(selectedDate, { pageSize }, punchSort);
+      setPunches(await Promise.all(page.items.map(toPunch)));
+      setPunchesCursor(page.nextCursor);
     } catch (error) {
       console.error('❌ Error fetching attendance:', error);
       alert(`Error: ${error}`);
     } finally {
       setLoading(false);
     }
-  }, [selectedDate]);
-
-  // Fetch daily reports
-  const fetchDailyReports = useCallback(async () => {
-    try {
-      setLoading(true);
-      console.log('=== Admin Fetching Daily Reports ===');
-      console.log('Selected Date:', selectedDate);
+  }, [selectedDate, pageSize, punchSort]);
 
-      const summaries = await FirebaseService.getDailySummariesByDate(selectedDate);
-      console.log('Daily summaries found:', summaries.length);
-      console.log('Daily summaries data:', summaries);
+  // Append the next page of attendance data
+  const fetchMorePunches = useCallback(async () => {
+    if (!punchesCursor || loadingMore) return;
 
-      const reportPromises = summaries.map(async (summary) => {
-        const userName = await FirebaseService.getUserName(summary.userId || summary.userEmail);
+    try {
+      setLoadingMore(true);
+      const page = await FirebaseService.getAttendanceByDate(
+        selectedDate,
+        { pageSize, cursor: punchesCursor },
+        punchSort
+      );
+      const morePunches = await Promise.all(page.items.map(toPunch));
 
-        // Safely handle NaN and undefined values
-        const safeNumber = (value: any, decimals: number = 2): string => {
-          const num = parseFloat(value);
-          return isNaN(num) ? '0.00' : num.toFixed(decimals);
-        };
+      setPunches((prev) => [...prev, ...morePunches]);
+      setPunchesCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching more punches:', error);
+      alert('Failed to load more punches');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [selectedDate, pageSize, punchSort, punchesCursor, loadingMore]);
 
-        const safeInt = (value: any): string => {
-          const num = parseInt(value);
-          return isNaN(num) ? '0' : num.toString();
-        };
+  // Fetch the first page of daily reports
+  const fetchDailyReports = useCallback(async () => {
+    try {
+      setLoading(true);
+      const page = await FirebaseService.getDailySummariesByDate(selectedDate, { pageSize });
+      const reports = await Promise.all(page.items.map((summary) => toDailyReport(summary, showAmounts)));
 
-        return {
-          employeeName: userName,
-          regular: safeNumber(summary.regularHours),
-          overtime: safeNumber(summary.overtimeHours),
-          nightDiff: safeNumber(summary.nightDiffHours),
-          late: safeInt(summary.totalLateMinutes),
-          undertime: safeInt(summary.totalUndertimeMinutes),
-          total: safeNumber(summary.totalWorkedHours)
-        };
-      });
+      // Absent employees are only known once every summary is loaded
+      const absentReports = page.nextCursor
+        ? []
+        : await getAbsentReports(selectedDate, new Set(page.items.map((summary) => summary.userId)), showAmounts);
 
-      const resolvedReports = await Promise.all(reportPromises);
-      setDailyReports(resolvedReports);
+      setDailyReports([...reports, ...absentReports]);
+      setDailyCursor(page.nextCursor);
     } catch (error) {
       console.error('❌ Error fetching daily reports:', error);
       alert(`Error: ${error}`);
     } finally {
       setLoading(false);
     }
-  }, [selectedDate]);
+  }, [selectedDate, showAmounts, pageSize]);
 
-  // Fetch weekly reports
+  // Append the next page of daily reports
+  const fetchMoreDailyReports = useCallback(async () => {
+    if (!dailyCursor || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await FirebaseService.getDailySummariesByDate(selectedDate, { pageSize, cursor: dailyCursor });
+      const reports = await Promise.all(page.items.map((summary) => toDailyReport(summary, showAmounts)));
+
+      const reportedUserIds = new Set([
+        ...dailyReports.map((report) => report.userId),
+        ...page.items.map((summary) => summary.userId)
+      ]);
+      const absentReports = page.nextCursor
+        ? []
+        : await getAbsentReports(selectedDate, reportedUserIds, showAmounts);
+
+      setDailyReports((prev) => [...prev, ...reports, ...absentReports]);
+      setDailyCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching more daily reports:', error);
+      alert('Failed to load more daily reports');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [selectedDate, showAmounts, pageSize, dailyCursor, dailyReports, loadingMore]);
+
+  // Fetch the first page of weekly reports
   const fetchWeeklyReports = useCallback(async () => {
     try {
       setLoading(true);
-      console.log('=== Admin Fetching Weekly Reports ===');
-      console.log('Selected Date:', selectedDate);
-
-      // Calculate week range
-      const selectedDateObj = new Date(selectedDate);
-      const weekStart = new Date(selectedDateObj);
-      weekStart.setDate(selectedDateObj.getDate() - selectedDateObj.getDay());
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekStart.getDate() + 6);
-
-      const startStr = weekStart.toISOString().split('T')[0];
-      const endStr = weekEnd.toISOString().split('T')[0];
-
-      console.log('Week range:', startStr, 'to', endStr);
-
-      const summaries = await FirebaseService.getDailySummariesByDateRange(startStr, endStr);
-      console.log('Weekly summaries found:', summaries.length);
-      console.log('Weekly summaries data:', summaries);
-
-      const userWeeklySummary: Record<string, WeeklyReport> = {};
-
-      // Helper to safely parse numbers
-      const safeParseFloat = (value: any): number => {
-        const num = parseFloat(value);
-        return isNaN(num) ? 0 : num;
-      };
-
-      const safeParseInt = (value: any): number => {
-        const num = parseInt(value);
-        return isNaN(num) ? 0 : num;
-      };
-
-      summaries.forEach((summary) => {
-        const userId = summary.userId;
-
-        if (!userWeeklySummary[userId]) {
-          userWeeklySummary[userId] = {
-            employeeName: userId,
-            regularHours: '0.00',
-            overtimeHours: '0.00',
-            nightDiffHours: '0.00',
-            lateMinutes: '0',
-            undertimeMinutes: '0',
-            totalHours: '0.00'
-          };
-        }
-
-        const report = userWeeklySummary[userId];
-        report.regularHours = (
-          safeParseFloat(report.regularHours) + safeParseFloat(summary.regularHours)
-        ).toFixed(2);
-        report.overtimeHours = (
-          safeParseFloat(report.overtimeHours) + safeParseFloat(summary.overtimeHours)
-        ).toFixed(2);
-        report.nightDiffHours = (
-          safeParseFloat(report.nightDiffHours) + safeParseFloat(summary.nightDiffHours)
-        ).toFixed(2);
-        report.lateMinutes = (
-          safeParseInt(report.lateMinutes) + safeParseInt(summary.totalLateMinutes)
-        ).toString();
-        report.undertimeMinutes = (
-          safeParseInt(report.undertimeMinutes) + safeParseInt(summary.totalUndertimeMinutes)
-        ).toString();
-        report.totalHours = (
-          safeParseFloat(report.totalHours) + safeParseFloat(summary.totalWorkedHours)
-        ).toFixed(2);
-      });
-
-      // Fetch user names
-      const userIds = Object.keys(userWeeklySummary);
-      await Promise.all(
-        userIds.map(async (userId) => {
-          const userName = await FirebaseService.getUserName(userId);
-          userWeeklySummary[userId].employeeName = userName;
-        })
-      );
+      const { startStr, endStr } = getWeekRange(selectedDate);
+      const page = await FirebaseService.getDailySummariesByDateRange(startStr, endStr, { pageSize });
 
-      setWeeklyReports(Object.values(userWeeklySummary));
+      setWeeklyReports(await toWeeklyReports(page.items, showAmounts));
+      setWeeklyCursor(page.nextCursor);
     } catch (error) {
       console.error('Error fetching weekly reports:', error);
     } finally {
       setLoading(false);
     }
-  }, [selectedDate]);
+  }, [selectedDate, showAmounts, pageSize]);
+
+  // Append the next page of weekly reports; pages never split an employee's week
+  const fetchMoreWeeklyReports = useCallback(async () => {
+    if (!weeklyCursor || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const { startStr, endStr } = getWeekRange(selectedDate);
+      const page = await FirebaseService.getDailySummariesByDateRange(startStr, endStr, {
+        pageSize,
+        cursor: weeklyCursor
+      });
+      const reports = await toWeeklyReports(page.items, showAmounts);
+
+      setWeeklyReports((prev) => [...prev, ...reports]);
+      setWeeklyCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching more weekly reports:', error);
+      alert('Failed to load more weekly reports');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [selectedDate, showAmounts, pageSize, weeklyCursor, loadingMore]);
 
   // Delete punch handler
   const handleDeletePunch = async (punchId: string) => {
-    if (!window.confirm('Are you sure you want to delete this punch record?')) {
+    const reason = window.prompt('Are you sure you want to delete this punch record? Enter the reason:');
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert('A reason is required to delete a punch');
       return;
     }
 
@@ -232,55 +398,13 @@ export function useAdminDashboard(selectedDate: string, activeTab: 'punches' | '
         return;
       }
 
-      const metrics = punchData.metrics;
-      const userId = punchData.userId || punchData.userEmail;
-      const date = punchData.date;
-
-      await FirebaseService.deleteAttendance(punchId);
-
-      // Update daily summary if metrics exist
-      if (metrics && userId && date) {
-        const summary = await FirebaseService.getDailySummary(userId, date);
-
-        if (summary) {
-          const updatedSummary = {
-            totalWorkedHours: Math.max(
-              0,
-              parseFloat(summary.totalWorkedHours || '0') - parseFloat(metrics.totalWorkedHours || '0')
-            ).toFixed(2),
-            regularHours: Math.max(
-              0,
-              parseFloat(summary.regularHours || '0') - parseFloat(metrics.regularHours || '0')
-            ).toFixed(2),
-            overtimeHours: Math.max(
-              0,
-              parseFloat(summary.overtimeHours || '0') - parseFloat(metrics.overtimeHours || '0')
-            ).toFixed(2),
-            nightDiffHours: Math.max(
-              0,
-              parseFloat(summary.nightDiffHours || '0') - parseFloat(metrics.nightDiffHours || '0')
-            ).toFixed(2),
-            totalLateMinutes: Math.max(0, (summary.totalLateMinutes || 0) - (metrics.lateMinutes || 0)),
-            totalUndertimeMinutes: Math.max(
-              0,
-              (summary.totalUndertimeMinutes || 0) - (metrics.undertimeMinutes || 0)
-            )
-          };
-
-          const allZero =
-            parseFloat(updatedSummary.totalWorkedHours) === 0 &&
-            parseFloat(updatedSummary.regularHours) === 0 &&
-            parseFloat(updatedSummary.overtimeHours) === 0 &&
-            parseFloat(updatedSummary.nightDiffHours) === 0 &&
-            updatedSummary.totalLateMinutes === 0 &&
-            updatedSummary.totalUndertimeMinutes === 0;
-
-          if (allZero) {
-            await FirebaseService.deleteDailySummary(userId, date);
-          } else {
-            await FirebaseService.updateDailySummary(userId, date, updatedSummary as unknown as TimeMetrics);
-          }
-        }
+      const { userId, date } = punchData;
+
+      await FirebaseService.deleteAttendance(punchId, { actor, reason });
+
+      // Rebuild the daily summary from the sessions that remain
+      if (userId && date) {
+        await SummaryService.recalculateDailySummary(userId, date);
       }
 
       alert('Punch record deleted successfully');
@@ -293,13 +417,19 @@ export function useAdminDashboard(selectedDate: string, activeTab: 'punches' | '
     }
   };
 
-  // Edit punch handler
+  // Edit punch handler; returns true when the punch was saved
   const handleSaveEdit = async (
     punchId: string,
     punchInStr: string,
     punchOutStr: string,
-    date: string
+    date: string,
+    reason: string
   ) => {
+    if (!reason.trim()) {
+      alert('A reason is required to edit a punch');
+      return false;
+    }
+
     try {
       const punchInDate = new Date(punchInStr);
       const punchOutDate = new Date(punchOutStr);
@@ -307,68 +437,37 @@ export function useAdminDashboard(selectedDate: string, activeTab: 'punches' | '
       const existingData = await FirebaseService.getAttendanceById(punchId);
       if (!existingData) {
         alert('Punch record not found');
-        return;
+        return false;
       }
 
-      // Recalculate metrics
-      const calculatedMetrics = await ApiService.calculateTimeMetrics(punchInDate, punchOutDate, {
-        start: '09:00',
-        end: '18:00',
-        timezone: 'Asia/Manila'
+      // Recalculate metrics the same way as the calculation trace
+      const { schedule, policy, approvedMinutes } = await SummaryService.getSessionCalculationInputs(
+        existingData.userId,
+        punchInDate,
+        punchOutDate,
+        date
+      );
+      const calculatedMetrics = await ApiService.calculateTimeMetrics(
+        punchInDate,
+        punchOutDate,
+        schedule,
+        policy,
+        approvedMinutes
+      );
+
+      // Overnight shifts belong to the date the shift started, not the date typed in
+      const businessDate = calculatedMetrics.businessDate || date;
+
+      await FirebaseService.updateAttendance(punchId, punchInDate, punchOutDate, businessDate, calculatedMetrics, {
+        actor,
+        reason
       });
 
-      await FirebaseService.updateAttendance(punchId, punchInDate, punchOutDate, date, calculatedMetrics);
-
-      // Update daily summary
-      if (existingData.metrics && existingData.userId && existingData.date) {
-        const summary = await FirebaseService.getDailySummary(existingData.userId, existingData.date);
-
-        if (summary) {
-          const oldMetrics = existingData.metrics;
-          const updatedSummary = {
-            totalWorkedHours: Math.max(
-              0,
-              parseFloat(summary.totalWorkedHours || '0') -
-                parseFloat(oldMetrics.totalWorkedHours || '0') +
-                parseFloat(calculatedMetrics.totalWorkedHours || '0')
-            ).toFixed(2),
-            regularHours: Math.max(
-              0,
-              parseFloat(summary.regularHours || '0') -
-                parseFloat(oldMetrics.regularHours || '0') +
-                parseFloat(calculatedMetrics.regularHours || '0')
-            ).toFixed(2),
-            overtimeHours: Math.max(
-              0,
-              parseFloat(summary.overtimeHours || '0') -
-                parseFloat(oldMetrics.overtimeHours || '0') +
-                parseFloat(calculatedMetrics.overtimeHours || '0')
-            ).toFixed(2),
-            nightDiffHours: Math.max(
-              0,
-              parseFloat(summary.nightDiffHours || '0') -
-                parseFloat(oldMetrics.nightDiffHours || '0') +
-                parseFloat(calculatedMetrics.nightDiffHours || '0')
-            ).toFixed(2),
-            totalLateMinutes: Math.max(
-              0,
-              (summary.totalLateMinutes || 0) -
-                (oldMetrics.lateMinutes || 0) +
-                (calculatedMetrics.lateMinutes || 0)
-            ),
-            totalUndertimeMinutes: Math.max(
-              0,
-              (summary.totalUndertimeMinutes || 0) -
-                (oldMetrics.undertimeMinutes || 0) +
-                (calculatedMetrics.undertimeMinutes || 0)
-            )
-          };
-
-          await FirebaseService.updateDailySummary(
-            existingData.userId,
-            existingData.date,
-            updatedSummary as unknown as TimeMetrics
-          );
+      // Rebuild the daily summaries for the old and new dates
+      if (existingData.userId) {
+        const affectedDates = new Set([existingData.date, businessDate].filter(Boolean));
+        for (const affectedDate of affectedDates) {
+          await SummaryService.recalculateDailySummary(existingData.userId, affectedDate);
         }
       }
 
@@ -376,16 +475,90 @@ export function useAdminDashboard(selectedDate: string, activeTab: 'punches' | '
       fetchAttendanceData();
       if (activeTab === 'daily') fetchDailyReports();
       if (activeTab === 'weekly') fetchWeeklyReports();
+      return true;
     } catch (error) {
       console.error('Error updating punch:', error);
       alert('Failed to update punch record');
+      return false;
+    }
+  };
+
+  // Recalculate a punch with the trace behind its metrics
+  const fetchCalculationTrace = async (punchId: string): Promise<CalculationTrace | null> => {
+    try {
+      const record = await FirebaseService.getAttendanceById(punchId);
+      if (!record) {
+        alert('Punch record not found');
+        return null;
+      }
+      if (!record.punchOut) {
+        alert('This punch has no punch out yet');
+        return null;
+      }
+
+      const { schedule, policy, approvedMinutes } = await SummaryService.getSessionCalculationInputs(
+        record.userId,
+        record.punchIn,
+        record.punchOut,
+        record.date
+      );
+
+      return await ApiService.explainTimeMetrics(record.punchIn, record.punchOut, schedule, policy, approvedMinutes);
+    } catch (error) {
+      console.error('Error explaining punch:', error);
+      alert('Failed to load calculation details');
+      return null;
+    }
+  };
+
+  // Load a punch's audit history, newest first
+  const fetchPunchHistory = async (punchId: string): Promise<AuditLogEntry[]> => {
+    try {
+      return await FirebaseService.getAuditLog(punchId);
+    } catch (error) {
+      console.error('Error fetching punch history:', error);
+      return [];
+    }
+  };
+
+  // Approve overtime handler
+  const handleApproveOvertime = async (report: DailyReport) => {
+    if (!report.userId) return;
+
+    try {
+      const existing = await FirebaseService.getOvertimeApproval(report.userId, selectedDate);
+      const input = window.prompt(
+        `Approved overtime minutes for ${report.employeeName} on ${selectedDate}:`,
+        String(existing?.approvedMinutes ?? 0)
+      );
+      if (input === null) return;
+
+      const approvedMinutes = parseInt(input, 10);
+      if (isNaN(approvedMinutes) || approvedMinutes < 0) {
+        alert('Approved minutes must be a whole number of 0 or more');
+        return;
+      }
+
+      await FirebaseService.saveOvertimeApproval({
+        userId: report.userId,
+        date: selectedDate,
+        approvedMinutes
+      });
+
+      // Reclassify the day's overtime against the new approval
+      await SummaryService.recalculateDailySummary(report.userId, selectedDate);
+
+      fetchDailyReports();
+    } catch (error) {
+      console.error('Error approving overtime:', error);
+      alert('Failed to approve overtime');
     }
   };
 
   useEffect(() => {
     fetchAttendanceData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedDate]);
+  }, [selectedDate, pageSize, punchSort]);
 
   useEffect(() => {
     if (activeTab === 'daily') {
@@ -394,18 +567,32 @@ export function useAdminDashboard(selectedDate: string, activeTab: 'punches' | '
       fetchWeeklyReports();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeTab, selectedDate]);
+  }, [activeTab, selectedDate, showAmounts, pageSize]);
 
   return {
     punches,
     dailyReports,
     weeklyReports,
     loading,
+    loadingMore,
+    pageSize,
+    setPageSize,
+    punchSort,
+    setPunchSort,
+    hasMorePunches: punchesCursor !== null,
+    hasMoreDailyReports: dailyCursor !== null,
+    hasMoreWeeklyReports: weeklyCursor !== null,
     fetchAttendanceData,
+    fetchMorePunches,
     fetchDailyReports,
+    fetchMoreDailyReports,
     fetchWeeklyReports,
+    fetchMoreWeeklyReports,
     handleDeletePunch,
     handleSaveEdit,
+    handleApproveOvertime,
+    fetchCalculationTrace,
+    fetchPunchHistory,
     convertTo24Hour
   };
 }
@@ -4,8 +4,6 @@
  */
 
 import { useState } from 'react';
-import { createUserWithEmailAndPassword, signInWithEmailAndPassword } from 'firebase/auth';
-import { auth } from '../firebase';
 import { FirebaseService } from '../services/firebase.service';
 import type { FormData, FormErrors, User } from '../types';
 import {
@@ -13,7 +11,7 @@ import {
   validateSignInForm,
   hasFormErrors
 } from '../utils/validation.utils';
-import { ADMIN_CREDENTIALS, DEFAULT_SCHEDULE, DEFAULT_TIMEZONE } from '../config/constants';
+import { DEFAULT_SCHEDULE, DEFAULT_TIMEZONE } from '../config/constants';
 
 export function useAuthForm(onAuthSuccess: (user: User) => void) {
   const [isSignUp, setIsSignUp] = useState(false);
@@ -57,15 +55,10 @@ export function useAuthForm(onAuthSuccess: (user: User) => void) {
   };
 
   const handleSignUp = async () => {
-    const userCredential = await createUserWithEmailAndPassword(
-      auth,
-      formData.email,
-      formData.password
-    );
-    const firebaseUser = userCredential.user;
-
-    // Save user data to Firestore
-    await FirebaseService.saveUser(firebaseUser.uid, {
+    const userId = await FirebaseService.createAccount(formData.email, formData.password);
+
+    // Save user data
+    await FirebaseService.saveUser(userId, {
       name: formData.name || 'User',
       email: formData.email,
       role: 'employee',
@@ -74,47 +67,35 @@ export function useAuthForm(onAuthSuccess: (user: User) => void) {
       schedule: DEFAULT_SCHEDULE
     });
 
+    // Read the role back: offline storage makes the first account the admin
+    const userData = await FirebaseService.getUser(userId);
+
     alert('Account Creation Successful!');
 
     onAuthSuccess({
       name: formData.name || 'User',
       email: formData.email,
-      role: 'user',
+      role: userData?.role === 'admin' ? 'admin' : 'user',
       position: formData.position,
-      userId: firebaseUser.uid
+      userId
     });
   };
 
   const handleSignIn = async () => {
-    // Check for admin credentials first
-    if (
-      formData.email === ADMIN_CREDENTIALS.email &&
-      formData.password === ADMIN_CREDENTIALS.password
-    ) {
-      alert('Admin Login Successful!');
-      onAuthSuccess({
-        name: 'Administrator',
-        email: formData.email,
-        role: 'admin'
-      });
-      return;
-    }
-
-    // Regular user login
-    const userCredential = await signInWithEmailAndPassword(auth, formData.email, formData.password);
-    const firebaseUser = userCredential.user;
+    const userId = await FirebaseService.signIn(formData.email, formData.password);
 
-    // Fetch user data from Firestore
-    const userData = await FirebaseService.getUser(firebaseUser.uid);
+    // Fetch user data; firestore.rules only lets admins change the role on it
+    const userData = await FirebaseService.getUser(userId);
+    const isAdmin = userData?.role === 'admin';
 
-    alert('Logged In Successful!');
+    alert(isAdmin ? 'Admin Login Successful!' : 'Logged In Successful!');
 
     onAuthSuccess({
       name: userData?.name || formData.email.split('@')[0],
       email: formData.email,
-      role: 'user',
+      role: isAdmin ? 'admin' : 'user',
       position: userData?.position,
-      userId: firebaseUser.uid
+      userId
     });
   };
 
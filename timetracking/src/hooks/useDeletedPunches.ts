@@ -0,0 +1,91 @@
+/**
+ * useDeletedPunches Hook
+ * Custom hook for listing and restoring deleted punches
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { FirebaseService } from '../services/firebase.service';
+import { SummaryService } from '../services/summary.service';
+import type { AuditActor, DeletedPunch } from '../types';
+
+export function useDeletedPunches(selectedDate: string, actor: AuditActor, enabled: boolean) {
+  const [deletedPunches, setDeletedPunches] = useState<DeletedPunch[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Fetch deleted punches for the selected date
+  const fetchDeletedPunches = useCallback(async () => {
+    try {
+      setLoading(true);
+      const records = await FirebaseService.getDeletedAttendanceByDate(selectedDate);
+
+      const formatPunch = (date: Date) =>
+        date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+      const results = await Promise.all(
+        records
+          .sort((a, b) => b.punchIn.getTime() - a.punchIn.getTime()) // Newest first
+          .map(async (record) => ({
+            id: record.id,
+            employeeName: await FirebaseService.getUserName(record.userId),
+            date: record.date,
+            punchIn: formatPunch(record.punchIn),
+            punchOut: formatPunch(record.punchOut),
+            totalHours: record.metrics?.totalWorkedHours || '0.00',
+            deletedAt: record.voidedAt?.toLocaleString() ?? '–',
+            deletedBy: record.voidedBy?.name || record.voidedBy?.email || '–',
+            reason: record.voidReason ?? ''
+          }))
+      );
+      setDeletedPunches(results);
+    } catch (error) {
+      console.error('❌ Error fetching deleted punches:', error);
+      alert(`Error: ${error}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDate]);
+
+  // Restore handler; returns true when the punch was restored
+  const handleRestorePunch = async (punch: DeletedPunch) => {
+    const reason = window.prompt(`Restore ${punch.employeeName}'s punch on ${punch.date}? Enter the reason:`);
+    if (reason === null) return false;
+    if (!reason.trim()) {
+      alert('A reason is required to restore a punch');
+      return false;
+    }
+
+    try {
+      const record = await FirebaseService.getAttendanceById(punch.id);
+      if (!record) {
+        alert('Punch record not found');
+        return false;
+      }
+
+      await FirebaseService.restoreAttendance(punch.id, { actor, reason });
+
+      // Count the punch toward its daily summary again
+      await SummaryService.recalculateDailySummary(record.userId, record.date);
+
+      alert('Punch record restored successfully');
+      fetchDeletedPunches();
+      return true;
+    } catch (error) {
+      console.error('Error restoring punch:', error);
+      alert('Failed to restore punch record');
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    if (enabled) {
+      fetchDeletedPunches();
+    }
+  }, [enabled, fetchDeletedPunches]);
+
+  return {
+    deletedPunches,
+    loading,
+    fetchDeletedPunches,
+    handleRestorePunch
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * useHolidays Hook
+ * Custom hook for holiday calendar management
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { FirebaseService } from '../services/firebase.service';
+import type { Holiday } from '../types';
+
+export function useHolidays(year: string, enabled: boolean) {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Fetch holidays for the selected year
+  const fetchHolidays = useCallback(async () => {
+    try {
+      setLoading(true);
+      const results = await FirebaseService.getHolidaysByDateRange(`${year}-01-01`, `${year}-12-31`);
+      setHolidays(results);
+    } catch (error) {
+      console.error('❌ Error fetching holidays:', error);
+      alert(`Error: ${error}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  // Create or update holiday handler
+  const handleSaveHoliday = async (holiday: Holiday) => {
+    if (!holiday.date || !holiday.name.trim()) {
+      alert('Holiday date and name are required');
+      return false;
+    }
+
+    try {
+      const data = { ...holiday, name: holiday.name.trim() };
+      if (holiday.id) {
+        await FirebaseService.updateHoliday(holiday.id, data);
+      } else {
+        await FirebaseService.createHoliday(data);
+      }
+
+      fetchHolidays();
+      return true;
+    } catch (error) {
+      console.error('Error saving holiday:', error);
+      alert('Failed to save holiday');
+      return false;
+    }
+  };
+
+  // Delete holiday handler
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    if (!holiday.id || !window.confirm(`Delete holiday "${holiday.name}"?`)) {
+      return;
+    }
+
+    try {
+      await FirebaseService.deleteHoliday(holiday.id);
+      fetchHolidays();
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      alert('Failed to delete holiday');
+    }
+  };
+
+  useEffect(() => {
+    if (enabled) {
+      fetchHolidays();
+    }
+  }, [enabled, fetchHolidays]);
+
+  return {
+    holidays,
+    loading,
+    fetchHolidays,
+    handleSaveHoliday,
+    handleDeleteHoliday
+  };
+}
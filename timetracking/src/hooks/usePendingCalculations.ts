@@ -0,0 +1,58 @@
+/**
+ * usePendingCalculations Hook
+ * Retries every employee's punches saved without metrics in the background,
+ * for the admin dashboard
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RECONCILE_INTERVAL_MS } from '../config/constants';
+import { FirebaseService } from '../services/firebase.service';
+import { ReconcileService } from '../services/reconcile.service';
+import type { PendingCalculation } from '../types';
+
+export function usePendingCalculations() {
+  const [pending, setPending] = useState<PendingCalculation[]>([]);
+  const running = useRef(false);
+
+  // Calculate pending punches, then load what is still pending; returns the
+  // number calculated. Punches that failed too often are only retried when
+  // retryExhausted is set.
+  const reconcile = useCallback(async (retryExhausted: boolean = false): Promise<number> => {
+    if (running.current) return 0;
+
+    try {
+      running.current = true;
+      const reconciled = await ReconcileService.reconcilePendingCalculations(retryExhausted);
+      if (reconciled > 0) {
+        console.log(`Reconciled ${reconciled} pending calculation(s)`);
+      }
+
+      setPending(await FirebaseService.getPendingCalculations());
+      return reconciled;
+    } catch (error) {
+      console.error('Error reconciling pending calculations:', error);
+      return 0;
+    } finally {
+      running.current = false;
+    }
+  }, []);
+
+  // Retry on load, on an interval, and as soon as the browser is back online
+  useEffect(() => {
+    const retry = () => reconcile();
+    retry();
+    const interval = setInterval(retry, RECONCILE_INTERVAL_MS);
+    window.addEventListener('online', retry);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', retry);
+    };
+  }, [reconcile]);
+
+  return {
+    pending,
+    pendingCount: pending.length,
+    reconcile
+  };
+}
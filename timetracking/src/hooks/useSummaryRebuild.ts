@@ -0,0 +1,70 @@
+/**
+ * useSummaryRebuild Hook
+ * Custom hook for rebuilding daily summaries from attendance records
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { FirebaseService } from '../services/firebase.service';
+import { SummaryService } from '../services/summary.service';
+import type { SummaryRebuildReport, User } from '../types';
+
+export function useSummaryRebuild(enabled: boolean) {
+  const [employees, setEmployees] = useState<User[]>([]);
+  const [report, setReport] = useState<SummaryRebuildReport | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Fetch employees to choose from
+  const fetchEmployees = useCallback(async () => {
+    try {
+      setEmployees(await FirebaseService.getEmployees());
+    } catch (error) {
+      console.error('❌ Error fetching employees:', error);
+      alert(`Error: ${error}`);
+    }
+  }, []);
+
+  // Rebuild handler; returns true when summaries were rebuilt
+  const handleRebuild = async (userId: string, startDate: string, endDate: string) => {
+    if (!userId && !startDate && !endDate) {
+      alert('Choose an employee or a date range to rebuild');
+      return false;
+    }
+    if (startDate && endDate && startDate > endDate) {
+      alert('Start date must be on or before end date');
+      return false;
+    }
+
+    try {
+      setRunning(true);
+      setReport(null);
+      const result = await SummaryService.rebuildDailySummaries(
+        userId || undefined,
+        startDate || undefined,
+        endDate || undefined
+      );
+      setReport(result);
+      return true;
+    } catch (error) {
+      console.error('Error rebuilding summaries:', error);
+      alert('Failed to rebuild daily summaries');
+      return false;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  useEffect(() => {
+    if (enabled) {
+      fetchEmployees();
+    } else {
+      setReport(null);
+    }
+  }, [enabled, fetchEmployees]);
+
+  return {
+    employees,
+    report,
+    running,
+    handleRebuild
+  };
+}
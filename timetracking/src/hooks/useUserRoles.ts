@@ -0,0 +1,83 @@
+/**
+ * useUserRoles Hook
+ * Custom hook for listing users and granting or revoking the admin role
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { FirebaseService } from '../services/firebase.service';
+import type { User } from '../types';
+
+export function useUserRoles(currentUserId: string | undefined, enabled: boolean) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Fetch every user, admins first
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const results = await FirebaseService.getUsers();
+      setUsers(
+        results.sort((a, b) =>
+          Number(b.role === 'admin') - Number(a.role === 'admin') || (a.name || a.email).localeCompare(b.name || b.email)
+        )
+      );
+    } catch (error) {
+      console.error('❌ Error fetching users:', error);
+      alert(`Error: ${error}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Grant the admin role
+  const handleGrantAdmin = async (user: User) => {
+    if (!user.userId) return;
+    if (!window.confirm(`Make ${user.name || user.email} an admin? Admins can view and edit every employee's punches.`)) {
+      return;
+    }
+
+    try {
+      await FirebaseService.setUserRole(user.userId, 'admin');
+      fetchUsers();
+    } catch (error) {
+      console.error('Error granting admin role:', error);
+      alert('Failed to grant admin role');
+    }
+  };
+
+  // Revoke the admin role, keeping at least one admin
+  const handleRevokeAdmin = async (user: User) => {
+    if (!user.userId) return;
+    if (user.userId === currentUserId) {
+      alert('You cannot revoke your own admin role');
+      return;
+    }
+    if (users.filter((existing) => existing.role === 'admin').length <= 1) {
+      alert('At least one admin is required');
+      return;
+    }
+    if (!window.confirm(`Revoke admin access for ${user.name || user.email}?`)) return;
+
+    try {
+      await FirebaseService.setUserRole(user.userId, 'employee');
+      fetchUsers();
+    } catch (error) {
+      console.error('Error revoking admin role:', error);
+      alert('Failed to revoke admin role');
+    }
+  };
+
+  useEffect(() => {
+    if (enabled) {
+      fetchUsers();
+    }
+  }, [enabled, fetchUsers]);
+
+  return {
+    users,
+    loading,
+    fetchUsers,
+    handleGrantAdmin,
+    handleRevokeAdmin
+  };
+}
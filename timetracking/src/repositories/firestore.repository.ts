@@ -0,0 +1,583 @@
+/**
+ * Firestore Repository
+ * Stores data in the Firebase project's Firestore database
+ */
+
+import { createUserWithEmailAndPassword, signInWithEmailAndPassword } from 'firebase/auth';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  Timestamp,
+  updateDoc,
+  where,
+  type DocumentData,
+  type QueryConstraint,
+  type Transaction
+} from 'firebase/firestore';
+import { COLLECTIONS } from '../config/constants';
+import { db, getFirebaseAuth } from '../firebase';
+import { toMetricMinutes } from '../shared/timeCalculator';
+import type {
+  AttendanceRecord,
+  AuditAction,
+  AuditDetails,
+  AuditLogEntry,
+  AuditSnapshot,
+  DailySummary,
+  DateRangeQuery,
+  Holiday,
+  NewSession,
+  OvertimeApproval,
+  Page,
+  PageRequest,
+  Repository,
+  SessionChanges,
+  SessionQuery,
+  SortDirection,
+  TimeMetrics,
+  User,
+  UserRole,
+  WeeklyOvertime
+} from '../types';
+import { toStoredMetrics } from '../utils/metrics.utils';
+import {
+  AccountError,
+  getDailySummaryId,
+  getSessionFingerprints,
+  getWeeklyOvertimeFields,
+  isSameSessions,
+  parseDailySummaryId,
+  StaleSummaryError,
+  toAuditSnapshot,
+  toPage
+} from './repository.utils';
+
+/**
+ * A stored timestamp as a Date, or null when it is missing or unreadable
+ */
+function toDate(value: unknown): Date | null {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date || typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+/**
+ * A session document as an AttendanceRecord, or null if its punch in is
+ * unreadable
+ */
+function toAttendanceRecord(id: string, data: DocumentData): AttendanceRecord | null {
+  const punchIn = toDate(data.punchIn);
+  if (!punchIn) return null;
+
+  return {
+    id,
+    userId: data.userId || data.userEmail,
+    userEmail: data.userEmail,
+    userName: data.userName,
+    status: data.status,
+    punchIn,
+    punchOut: toDate(data.punchOut),
+    date: data.date,
+    duration: data.duration ?? null,
+    metrics: data.metrics ?? null,
+    calculationStatus: data.calculationStatus,
+    calculationError: data.calculationError,
+    calculationAttempts: data.calculationAttempts,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+    voidedAt: toDate(data.voidedAt),
+    voidedBy: data.voidedBy ?? null,
+    voidReason: data.voidReason ?? null
+  };
+}
+
+/**
+ * Add an entry to the audit log as part of the transaction making the change
+ * Entries are only ever added, never updated or deleted.
+ */
+function logAuditEntry(
+  transaction: Transaction,
+  recordId: string,
+  action: AuditAction,
+  { actor, reason }: AuditDetails,
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null
+): void {
+  const toStoredSnapshot = (snapshot: AuditSnapshot | null) =>
+    snapshot && { ...snapshot, metrics: snapshot.metrics && toStoredMetrics(snapshot.metrics) };
+
+  transaction.set(doc(collection(db, COLLECTIONS.AUDIT_LOG)), {
+    recordId,
+    action,
+    actor,
+    reason: reason.trim(),
+    before: toStoredSnapshot(before),
+    after: toStoredSnapshot(after),
+    createdAt: serverTimestamp()
+  });
+}
+
+/**
+ * Read a session inside a transaction, or null if it does not exist
+ */
+async function readSession(transaction: Transaction, sessionId: string): Promise<AttendanceRecord | null> {
+  const sessionSnap = await transaction.get(doc(db, COLLECTIONS.SESSIONS, sessionId));
+  const data = sessionSnap.data();
+  return data ? toAttendanceRecord(sessionSnap.id, data) : null;
+}
+
+/**
+ * Read a session inside a transaction, failing if it does not exist
+ */
+async function readExistingSession(transaction: Transaction, sessionId: string): Promise<AttendanceRecord> {
+  const record = await readSession(transaction, sessionId);
+  if (!record) throw new Error(`Session ${sessionId} not found`);
+  return record;
+}
+
+/**
+ * Read the closed sessions among sessionIds that count toward a user's
+ * business date, as fingerprints keyed by session ID
+ */
+async function readSessionFingerprints(
+  transaction: Transaction,
+  userId: string,
+  date: string,
+  sessionIds: string[]
+): Promise<Record<string, string>> {
+  const records = [];
+  for (const sessionId of sessionIds) {
+    records.push(await readSession(transaction, sessionId));
+  }
+  return getSessionFingerprints(records, userId, date);
+}
+
+/**
+ * Query constraints for an optional user and inclusive date range
+ */
+function getDateRangeConstraints({ userId, startDate, endDate }: DateRangeQuery) {
+  const constraints = [];
+  if (userId) constraints.push(where('userId', '==', userId));
+  if (startDate) constraints.push(where('date', '>=', startDate));
+  if (endDate) constraints.push(where('date', '<=', endDate));
+  return constraints;
+}
+
+/**
+ * Query constraints for every filter in a session query
+ */
+function getSessionConstraints(filter: SessionQuery) {
+  const constraints = getDateRangeConstraints(filter);
+  if (filter.status) constraints.push(where('status', '==', filter.status));
+  if (filter.date) constraints.push(where('date', '==', filter.date));
+  if (filter.calculationStatus) constraints.push(where('calculationStatus', '==', filter.calculationStatus));
+  return constraints;
+}
+
+export class FirestoreRepository implements Repository {
+  async getUser(userId: string): Promise<User | null> {
+    const userDoc = await getDoc(doc(db, COLLECTIONS.USERS, userId));
+    return userDoc.exists() ? userDoc.data() as User : null;
+  }
+
+  async getEmployees(): Promise<User[]> {
+    const q = query(collection(db, COLLECTIONS.USERS), where('role', 'in', ['employee', 'user']));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(doc => ({ ...doc.data(), userId: doc.id }) as User);
+  }
+
+  async getUsers(): Promise<User[]> {
+    const querySnapshot = await getDocs(collection(db, COLLECTIONS.USERS));
+    return querySnapshot.docs.map(doc => ({ ...doc.data(), userId: doc.id }) as User);
+  }
+
+  async saveUser(userId: string, userData: Partial<User>): Promise<void> {
+    await setDoc(doc(db, COLLECTIONS.USERS, userId), {
+      ...userData,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async setUserRole(userId: string, role: UserRole): Promise<void> {
+    await updateDoc(doc(db, COLLECTIONS.USERS, userId), { role, updatedAt: serverTimestamp() });
+  }
+
+  async createAccount(email: string, password: string): Promise<string> {
+    const userCredential = await createUserWithEmailAndPassword(getFirebaseAuth(), email, password);
+    return userCredential.user.uid;
+  }
+
+  async signIn(email: string, password: string): Promise<string> {
+    const userCredential = await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+    return userCredential.user.uid;
+  }
+
+  async getIdToken(): Promise<string | null> {
+    const { currentUser } = getFirebaseAuth();
+    if (!currentUser) throw new AccountError('auth/no-current-user', 'Not signed in');
+    return currentUser.getIdToken();
+  }
+
+  async openSession({ userId, userEmail, userName, date }: NewSession): Promise<string> {
+    const openSessions = await getDocs(query(
+      collection(db, COLLECTIONS.SESSIONS),
+      where('userId', '==', userId),
+      where('status', '==', 'open')
+    ));
+    if (!openSessions.empty) throw new Error(`${userName} is already punched in`);
+
+    const sessionRef = doc(collection(db, COLLECTIONS.SESSIONS));
+    await setDoc(sessionRef, {
+      userId,
+      userEmail,
+      userName,
+      status: 'open',
+      punchIn: serverTimestamp(),
+      punchOut: null,
+      date,
+      duration: null,
+      metrics: null,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+
+    return sessionRef.id;
+  }
+
+  /**
+   * Only the punch out and status change; the security rules leave the metrics
+   * to the server and admins
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    const sessionRef = doc(db, COLLECTIONS.SESSIONS, sessionId);
+
+    await runTransaction(db, async (transaction) => {
+      const sessionSnap = await transaction.get(sessionRef);
+      if (sessionSnap.data()?.status !== 'open') {
+        throw new Error(`Session ${sessionId} is not open`);
+      }
+
+      transaction.update(sessionRef, {
+        status: 'closed',
+        punchOut: serverTimestamp(),
+        calculationStatus: 'pending',
+        updatedAt: serverTimestamp()
+      });
+    });
+  }
+
+  async getSession(sessionId: string): Promise<AttendanceRecord | null> {
+    const sessionDoc = await getDoc(doc(db, COLLECTIONS.SESSIONS, sessionId));
+    return sessionDoc.exists() ? toAttendanceRecord(sessionDoc.id, sessionDoc.data()) : null;
+  }
+
+  async findSessions(filter: SessionQuery): Promise<AttendanceRecord[]> {
+    const querySnapshot = await getDocs(query(collection(db, COLLECTIONS.SESSIONS), ...getSessionConstraints(filter)));
+    return querySnapshot.docs
+      .map(sessionDoc => toAttendanceRecord(sessionDoc.id, sessionDoc.data()))
+      .filter((record): record is AttendanceRecord => record !== null);
+  }
+
+  /**
+   * Pages start after the cursor session's snapshot, which also orders
+   * sessions with the same punch in by ID
+   */
+  async findSessionsPage(
+    filter: SessionQuery,
+    { pageSize, cursor }: PageRequest,
+    direction: SortDirection
+  ): Promise<Page<AttendanceRecord>> {
+    const constraints: QueryConstraint[] = [...getSessionConstraints(filter), orderBy('punchIn', direction)];
+    if (cursor) {
+      const cursorDoc = await getDoc(doc(db, COLLECTIONS.SESSIONS, cursor));
+      if (!cursorDoc.exists()) throw new Error(`Session ${cursor} not found`);
+      constraints.push(startAfter(cursorDoc));
+    }
+
+    const querySnapshot = await getDocs(
+      query(collection(db, COLLECTIONS.SESSIONS), ...constraints, limit(pageSize + 1))
+    );
+    const records = querySnapshot.docs
+      .map(sessionDoc => toAttendanceRecord(sessionDoc.id, sessionDoc.data()))
+      .filter((record): record is AttendanceRecord => record !== null);
+    return toPage(records, pageSize, record => record.id);
+  }
+
+  async saveSessionMetrics(sessionId: string, date: string, duration: number, metrics: TimeMetrics): Promise<void> {
+    await updateDoc(doc(db, COLLECTIONS.SESSIONS, sessionId), {
+      date,
+      duration,
+      metrics: toStoredMetrics(metrics),
+      calculationStatus: 'calculated',
+      calculationError: deleteField(),
+      calculationAttempts: deleteField(),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async recordCalculationFailure(sessionId: string, calculationError: string): Promise<void> {
+    await updateDoc(doc(db, COLLECTIONS.SESSIONS, sessionId), {
+      calculationError,
+      calculationAttempts: increment(1),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async updateSession(sessionId: string, changes: SessionChanges, audit: AuditDetails): Promise<void> {
+    await runTransaction(db, async (transaction) => {
+      const before = await readExistingSession(transaction, sessionId);
+      transaction.update(doc(db, COLLECTIONS.SESSIONS, sessionId), {
+        punchIn: Timestamp.fromDate(changes.punchIn),
+        punchOut: Timestamp.fromDate(changes.punchOut),
+        date: changes.date,
+        metrics: toStoredMetrics(changes.metrics),
+        updatedAt: serverTimestamp()
+      });
+      logAuditEntry(
+        transaction,
+        sessionId,
+        'edit',
+        audit,
+        toAuditSnapshot(before),
+        toAuditSnapshot({ ...before, ...changes })
+      );
+    });
+  }
+
+  async voidSession(sessionId: string, audit: AuditDetails): Promise<void> {
+    await runTransaction(db, async (transaction) => {
+      const before = await readExistingSession(transaction, sessionId);
+      if (before.status !== 'closed') throw new Error(`Session ${sessionId} is not closed`);
+
+      transaction.update(doc(db, COLLECTIONS.SESSIONS, sessionId), {
+        status: 'voided',
+        voidedAt: serverTimestamp(),
+        voidedBy: audit.actor,
+        voidReason: audit.reason.trim(),
+        updatedAt: serverTimestamp()
+      });
+      logAuditEntry(
+        transaction,
+        sessionId,
+        'delete',
+        audit,
+        toAuditSnapshot(before),
+        toAuditSnapshot({ ...before, status: 'voided' })
+      );
+    });
+  }
+
+  async restoreSession(sessionId: string, audit: AuditDetails): Promise<void> {
+    await runTransaction(db, async (transaction) => {
+      const before = await readExistingSession(transaction, sessionId);
+      if (before.status !== 'voided' || !before.punchOut) {
+        throw new Error(`Session ${sessionId} cannot be restored`);
+      }
+
+      transaction.update(doc(db, COLLECTIONS.SESSIONS, sessionId), {
+        status: 'closed',
+        voidedAt: deleteField(),
+        voidedBy: deleteField(),
+        voidReason: deleteField(),
+        updatedAt: serverTimestamp()
+      });
+      logAuditEntry(
+        transaction,
+        sessionId,
+        'restore',
+        audit,
+        toAuditSnapshot(before),
+        toAuditSnapshot({ ...before, status: 'closed' })
+      );
+    });
+  }
+
+  async getAuditLog(recordId: string): Promise<AuditLogEntry[]> {
+    const q = query(collection(db, COLLECTIONS.AUDIT_LOG), where('recordId', '==', recordId));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(entryDoc => {
+        const data = entryDoc.data();
+        return {
+          id: entryDoc.id,
+          recordId: data.recordId,
+          action: data.action,
+          actor: data.actor,
+          reason: data.reason,
+          before: data.before ?? null,
+          after: data.after ?? null,
+          createdAt: toDate(data.createdAt)
+        };
+      })
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getDailySummary(userId: string, date: string): Promise<DailySummary | null> {
+    const summaryDoc = await getDoc(doc(db, COLLECTIONS.DAILY_SUMMARY, `${userId}_${date}`));
+    return summaryDoc.exists() ? summaryDoc.data() as DailySummary : null;
+  }
+
+  async findDailySummaries(filter: DateRangeQuery): Promise<DailySummary[]> {
+    const querySnapshot = await getDocs(query(collection(db, COLLECTIONS.DAILY_SUMMARY), ...getDateRangeConstraints(filter)));
+    return querySnapshot.docs.map(doc => doc.data() as DailySummary);
+  }
+
+  /**
+   * Pages start after the cursor's user and date rather than its snapshot, so
+   * a page still loads if the cursor summary was deleted in the meantime
+   */
+  async findDailySummariesPage(filter: DateRangeQuery, { pageSize, cursor }: PageRequest): Promise<Page<DailySummary>> {
+    const constraints: QueryConstraint[] = [...getDateRangeConstraints(filter), orderBy('userId'), orderBy('date')];
+    if (cursor) {
+      const { userId, date } = parseDailySummaryId(cursor);
+      constraints.push(startAfter(userId, date));
+    }
+
+    const querySnapshot = await getDocs(
+      query(collection(db, COLLECTIONS.DAILY_SUMMARY), ...constraints, limit(pageSize + 1))
+    );
+    return toPage(querySnapshot.docs.map(doc => doc.data() as DailySummary), pageSize, getDailySummaryId);
+  }
+
+  /**
+   * Runs as a transaction that re-reads the sessions the summary covers, so
+   * nothing is written if one was added, edited or removed since the summary
+   * was calculated
+   */
+  async saveDailySummary(summary: DailySummary): Promise<void> {
+    const { userId, date, sessions: calculatedSessions = {} } = summary;
+    const summaryRef = doc(db, COLLECTIONS.DAILY_SUMMARY, `${userId}_${date}`);
+
+    await runTransaction(db, async (transaction) => {
+      const summarySnap = await transaction.get(summaryRef);
+      const existing = summarySnap.exists() ? summarySnap.data() as DailySummary : null;
+
+      const sessionIds = new Set([...Object.keys(existing?.sessions ?? {}), ...Object.keys(calculatedSessions)]);
+      const currentSessions = await readSessionFingerprints(transaction, userId, date, [...sessionIds]);
+      if (!isSameSessions(currentSessions, calculatedSessions)) {
+        throw new StaleSummaryError(`Sessions for ${userId} on ${date} changed during the update`);
+      }
+
+      // Replaces the whole document, dropping the hour strings of older summaries
+      transaction.set(summaryRef, {
+        ...summary,
+        createdAt: existing?.createdAt ?? serverTimestamp(),
+        lastUpdated: serverTimestamp()
+      });
+    });
+  }
+
+  async applyWeeklyOvertime(userId: string, week: WeeklyOvertime): Promise<void> {
+    await runTransaction(db, async (transaction) => {
+      const summaryRefs = week.days.map(day => doc(db, COLLECTIONS.DAILY_SUMMARY, `${userId}_${day.date}`));
+      const summarySnaps = await Promise.all(summaryRefs.map(summaryRef => transaction.get(summaryRef)));
+
+      summarySnaps.forEach((summarySnap, index) => {
+        const summary = summarySnap.data();
+        if (!summary || toMetricMinutes(summary, 'totalWorked') !== week.days[index].totalWorkedMinutes) {
+          throw new StaleSummaryError(`Summary for ${userId} on ${week.days[index].date} changed during the update`);
+        }
+      });
+
+      week.days.forEach((day, index) => {
+        transaction.update(summaryRefs[index], {
+          ...getWeeklyOvertimeFields(day),
+          lastUpdated: serverTimestamp()
+        });
+      });
+    });
+  }
+
+  async deleteDailySummary(userId: string, date: string): Promise<void> {
+    const summaryRef = doc(db, COLLECTIONS.DAILY_SUMMARY, `${userId}_${date}`);
+
+    await runTransaction(db, async (transaction) => {
+      const summarySnap = await transaction.get(summaryRef);
+      if (!summarySnap.exists()) return;
+
+      const { sessions = {} } = summarySnap.data() as DailySummary;
+      const remainingSessions = await readSessionFingerprints(transaction, userId, date, Object.keys(sessions));
+      if (Object.keys(remainingSessions).length > 0) {
+        throw new StaleSummaryError(`Sessions for ${userId} on ${date} changed during the update`);
+      }
+
+      transaction.delete(summaryRef);
+    });
+  }
+
+  async getHolidays(startDate: string, endDate: string): Promise<Holiday[]> {
+    const q = query(
+      collection(db, COLLECTIONS.HOLIDAYS),
+      where('date', '>=', startDate),
+      where('date', '<=', endDate),
+      orderBy('date')
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Holiday);
+  }
+
+  async createHoliday(holiday: Holiday): Promise<string> {
+    const docRef = await addDoc(collection(db, COLLECTIONS.HOLIDAYS), {
+      date: holiday.date,
+      name: holiday.name,
+      type: holiday.type,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+  }
+
+  async updateHoliday(holidayId: string, holiday: Holiday): Promise<void> {
+    await updateDoc(doc(db, COLLECTIONS.HOLIDAYS, holidayId), {
+      date: holiday.date,
+      name: holiday.name,
+      type: holiday.type,
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async deleteHoliday(holidayId: string): Promise<void> {
+    await deleteDoc(doc(db, COLLECTIONS.HOLIDAYS, holidayId));
+  }
+
+  async getOvertimeApproval(userId: string, date: string): Promise<OvertimeApproval | null> {
+    const approvalDoc = await getDoc(doc(db, COLLECTIONS.OVERTIME_APPROVALS, `${userId}_${date}`));
+    return approvalDoc.exists() ? { id: approvalDoc.id, ...approvalDoc.data() } as OvertimeApproval : null;
+  }
+
+  async findOvertimeApprovals(filter: DateRangeQuery): Promise<OvertimeApproval[]> {
+    const querySnapshot = await getDocs(query(collection(db, COLLECTIONS.OVERTIME_APPROVALS), ...getDateRangeConstraints(filter)));
+    return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as OvertimeApproval);
+  }
+
+  async saveOvertimeApproval(approval: OvertimeApproval): Promise<void> {
+    await setDoc(doc(db, COLLECTIONS.OVERTIME_APPROVALS, `${approval.userId}_${approval.date}`), {
+      userId: approval.userId,
+      date: approval.date,
+      approvedMinutes: approval.approvedMinutes,
+      reason: approval.reason || '',
+      approvedBy: approval.approvedBy || '',
+      createdAt: serverTimestamp()
+    });
+  }
+}
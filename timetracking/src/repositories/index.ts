@@ -0,0 +1,24 @@
+/**
+ * Repositories
+ * The storage adapter the app runs on, chosen by STORAGE_ADAPTER
+ */
+
+import { STORAGE_ADAPTER } from '../config/constants';
+import type { Repository, StorageAdapter } from '../types';
+import { FirestoreRepository } from './firestore.repository';
+import { MemoryRepository } from './memory.repository';
+
+export function createRepository(adapter: StorageAdapter): Repository {
+  switch (adapter) {
+    case 'memory':
+      return new MemoryRepository();
+    case 'local':
+      return new MemoryRepository(window.localStorage);
+    default:
+      return new FirestoreRepository();
+  }
+}
+
+export const repository = createRepository(STORAGE_ADAPTER);
+
+export { AccountError, StaleSummaryError } from './repository.utils';
@@ -0,0 +1,496 @@
+/**
+ * Memory Repository
+ * Stores data in memory, optionally saved to localStorage, so the app runs
+ * without a Firebase project. Passwords are kept as typed: demo data only.
+ */
+
+import { LOCAL_STORAGE_KEY } from '../config/constants';
+import { toMetricMinutes } from '../shared/timeCalculator';
+import type {
+  AttendanceRecord,
+  AuditAction,
+  AuditDetails,
+  AuditLogEntry,
+  DailySummary,
+  DateRangeQuery,
+  Holiday,
+  NewSession,
+  OvertimeApproval,
+  Page,
+  PageRequest,
+  Repository,
+  SessionChanges,
+  SessionQuery,
+  SortDirection,
+  TimeMetrics,
+  User,
+  UserRole,
+  WeeklyOvertime
+} from '../types';
+import {
+  AccountError,
+  getDailySummaryId,
+  getSessionFingerprints,
+  getWeeklyOvertimeFields,
+  isSameSessions,
+  matchesSessionQuery,
+  parseDailySummaryId,
+  StaleSummaryError,
+  toAuditSnapshot,
+  toPage
+} from './repository.utils';
+
+interface MemoryState {
+  users: Record<string, User>;
+  accounts: Record<string, { userId: string; password: string }>; // Keyed by lowercase email
+  sessions: Record<string, AttendanceRecord>;
+  auditLog: AuditLogEntry[];
+  dailySummaries: Record<string, DailySummary>; // Keyed by `${userId}_${date}`
+  holidays: Record<string, Holiday>;
+  overtimeApprovals: Record<string, OvertimeApproval>; // Keyed by `${userId}_${date}`
+}
+
+function createEmptyState(): MemoryState {
+  return {
+    users: {},
+    accounts: {},
+    sessions: {},
+    auditLog: [],
+    dailySummaries: {},
+    holidays: {},
+    overtimeApprovals: {}
+  };
+}
+
+function toDateOrNull(value: string | Date | null | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Parse saved state, turning the JSON timestamps of sessions and audit entries
+ * back into Dates
+ */
+function parseState(json: string): MemoryState {
+  const state: MemoryState = { ...createEmptyState(), ...JSON.parse(json) };
+
+  Object.values(state.sessions).forEach(session => {
+    session.punchIn = new Date(session.punchIn);
+    session.punchOut = toDateOrNull(session.punchOut);
+    session.createdAt = toDateOrNull(session.createdAt);
+    session.updatedAt = toDateOrNull(session.updatedAt);
+    session.voidedAt = toDateOrNull(session.voidedAt);
+  });
+  state.auditLog.forEach(entry => {
+    entry.createdAt = toDateOrNull(entry.createdAt);
+  });
+
+  return state;
+}
+
+function inDateRange(record: { userId: string; date: string }, { userId, startDate, endDate }: DateRangeQuery): boolean {
+  return (!userId || record.userId === userId)
+    && (!startDate || record.date >= startDate)
+    && (!endDate || record.date <= endDate);
+}
+
+/**
+ * Compare strings by code unit, the way Firestore orders them
+ */
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareSessions(a: AttendanceRecord, b: AttendanceRecord, direction: SortDirection): number {
+  const order = a.punchIn.getTime() - b.punchIn.getTime() || compareStrings(a.id, b.id);
+  return direction === 'asc' ? order : -order;
+}
+
+function compareSummaries(a: { userId: string; date: string }, b: { userId: string; date: string }): number {
+  return compareStrings(a.userId, b.userId) || compareStrings(a.date, b.date);
+}
+
+export class MemoryRepository implements Repository {
+  private state: MemoryState;
+  private storage?: Storage;
+  private storageKey: string;
+
+  /**
+   * Pass a storage (e.g. localStorage) to keep the data across reloads
+   */
+  constructor(storage?: Storage, storageKey: string = LOCAL_STORAGE_KEY) {
+    this.storage = storage;
+    this.storageKey = storageKey;
+
+    const saved = storage?.getItem(storageKey);
+    this.state = saved ? parseState(saved) : createEmptyState();
+  }
+
+  private save(): void {
+    this.storage?.setItem(this.storageKey, JSON.stringify(this.state));
+  }
+
+  private getExistingSession(sessionId: string): AttendanceRecord {
+    const session = this.state.sessions[sessionId];
+    if (!session) throw new Error(`Session ${sessionId} not found`);
+    return session;
+  }
+
+  /**
+   * Replace a session and log the change; the caller saves
+   */
+  private replaceSession(
+    before: AttendanceRecord,
+    after: AttendanceRecord,
+    action: AuditAction,
+    { actor, reason }: AuditDetails
+  ): void {
+    this.state.sessions[before.id] = after;
+    this.state.auditLog.push({
+      id: crypto.randomUUID(),
+      recordId: before.id,
+      action,
+      actor,
+      reason: reason.trim(),
+      before: toAuditSnapshot(before),
+      after: toAuditSnapshot(after),
+      createdAt: new Date()
+    });
+  }
+
+  async getUser(userId: string): Promise<User | null> {
+    const user = this.state.users[userId];
+    return user ? structuredClone(user) : null;
+  }
+
+  async getEmployees(): Promise<User[]> {
+    return Object.entries(this.state.users)
+      .filter(([, user]) => user.role === 'employee' || user.role === 'user')
+      .map(([userId, user]) => ({ ...structuredClone(user), userId }));
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Object.entries(this.state.users).map(([userId, user]) => ({ ...structuredClone(user), userId }));
+  }
+
+  /**
+   * There is no bootstrap command offline, so the first user saved into an
+   * empty store is made the admin. Nobody else is ever promoted here, even if
+   * no admin is left.
+   */
+  async saveUser(userId: string, userData: Partial<User>): Promise<void> {
+    const now = new Date();
+    const isFirstUser = Object.keys(this.state.users).length === 0;
+    this.state.users[userId] = structuredClone({
+      ...userData,
+      ...(isFirstUser ? { role: 'admin' } : {}),
+      createdAt: now,
+      updatedAt: now
+    }) as User;
+    this.save();
+  }
+
+  async setUserRole(userId: string, role: UserRole): Promise<void> {
+    const user = this.state.users[userId];
+    if (!user) throw new Error(`User ${userId} not found`);
+    Object.assign(user, { role, updatedAt: new Date() });
+    this.save();
+  }
+
+  async createAccount(email: string, password: string): Promise<string> {
+    const key = email.toLowerCase();
+    if (this.state.accounts[key]) {
+      throw new AccountError('auth/email-already-in-use', 'Email already in use');
+    }
+    if (password.length < 6) {
+      throw new AccountError('auth/weak-password', 'Password should be at least 6 characters');
+    }
+
+    const userId = crypto.randomUUID();
+    this.state.accounts[key] = { userId, password };
+    this.save();
+    return userId;
+  }
+
+  async signIn(email: string, password: string): Promise<string> {
+    const account = this.state.accounts[email.toLowerCase()];
+    if (!account) throw new AccountError('auth/user-not-found', 'User not found');
+    if (account.password !== password) throw new AccountError('auth/wrong-password', 'Wrong password');
+    return account.userId;
+  }
+
+  /**
+   * The API cannot read this data, so there is nothing to authenticate
+   */
+  async getIdToken(): Promise<string | null> {
+    return null;
+  }
+
+  async openSession({ userId, userEmail, userName, date }: NewSession): Promise<string> {
+    if (Object.values(this.state.sessions).some(session => session.userId === userId && session.status === 'open')) {
+      throw new Error(`${userName} is already punched in`);
+    }
+
+    const now = new Date();
+    const id = crypto.randomUUID();
+    this.state.sessions[id] = {
+      id,
+      userId,
+      userEmail,
+      userName,
+      status: 'open',
+      punchIn: now,
+      punchOut: null,
+      date,
+      duration: null,
+      metrics: null,
+      createdAt: now,
+      updatedAt: now,
+      voidedAt: null,
+      voidedBy: null,
+      voidReason: null
+    };
+    this.save();
+    return id;
+  }
+
+  async closeSession(sessionId: string): Promise<void> {
+    const session = this.getExistingSession(sessionId);
+    if (session.status !== 'open') throw new Error(`Session ${sessionId} is not open`);
+
+    const now = new Date();
+    Object.assign(session, {
+      status: 'closed',
+      punchOut: now,
+      calculationStatus: 'pending',
+      updatedAt: now
+    });
+    this.save();
+  }
+
+  async getSession(sessionId: string): Promise<AttendanceRecord | null> {
+    const session = this.state.sessions[sessionId];
+    return session ? structuredClone(session) : null;
+  }
+
+  async findSessions(filter: SessionQuery): Promise<AttendanceRecord[]> {
+    return Object.values(this.state.sessions)
+      .filter(session => matchesSessionQuery(session, filter))
+      .map(session => structuredClone(session));
+  }
+
+  async findSessionsPage(
+    filter: SessionQuery,
+    { pageSize, cursor }: PageRequest,
+    direction: SortDirection
+  ): Promise<Page<AttendanceRecord>> {
+    const cursorSession = cursor ? this.getExistingSession(cursor) : null;
+    const records = Object.values(this.state.sessions)
+      .filter(session => matchesSessionQuery(session, filter))
+      .filter(session => !cursorSession || compareSessions(session, cursorSession, direction) > 0)
+      .sort((a, b) => compareSessions(a, b, direction))
+      .slice(0, pageSize + 1)
+      .map(session => structuredClone(session));
+    return toPage(records, pageSize, record => record.id);
+  }
+
+  async saveSessionMetrics(sessionId: string, date: string, duration: number, metrics: TimeMetrics): Promise<void> {
+    const session = this.getExistingSession(sessionId);
+    Object.assign(session, {
+      date,
+      duration,
+      metrics: structuredClone(metrics),
+      calculationStatus: 'calculated',
+      calculationError: undefined,
+      calculationAttempts: undefined,
+      updatedAt: new Date()
+    });
+    this.save();
+  }
+
+  async recordCalculationFailure(sessionId: string, calculationError: string): Promise<void> {
+    const session = this.getExistingSession(sessionId);
+    Object.assign(session, {
+      calculationError,
+      calculationAttempts: (session.calculationAttempts ?? 0) + 1,
+      updatedAt: new Date()
+    });
+    this.save();
+  }
+
+  async updateSession(sessionId: string, changes: SessionChanges, audit: AuditDetails): Promise<void> {
+    const before = this.getExistingSession(sessionId);
+    this.replaceSession(before, { ...before, ...structuredClone(changes), updatedAt: new Date() }, 'edit', audit);
+    this.save();
+  }
+
+  async voidSession(sessionId: string, audit: AuditDetails): Promise<void> {
+    const before = this.getExistingSession(sessionId);
+    if (before.status !== 'closed') throw new Error(`Session ${sessionId} is not closed`);
+
+    const now = new Date();
+    this.replaceSession(before, {
+      ...before,
+      status: 'voided',
+      voidedAt: now,
+      voidedBy: { ...audit.actor },
+      voidReason: audit.reason.trim(),
+      updatedAt: now
+    }, 'delete', audit);
+    this.save();
+  }
+
+  async restoreSession(sessionId: string, audit: AuditDetails): Promise<void> {
+    const before = this.getExistingSession(sessionId);
+    if (before.status !== 'voided' || !before.punchOut) {
+      throw new Error(`Session ${sessionId} cannot be restored`);
+    }
+
+    this.replaceSession(before, {
+      ...before,
+      status: 'closed',
+      voidedAt: null,
+      voidedBy: null,
+      voidReason: null,
+      updatedAt: new Date()
+    }, 'restore', audit);
+    this.save();
+  }
+
+  async getAuditLog(recordId: string): Promise<AuditLogEntry[]> {
+    // Reversed first so entries logged in the same millisecond stay newest first
+    return this.state.auditLog
+      .filter(entry => entry.recordId === recordId)
+      .reverse()
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .map(entry => structuredClone(entry));
+  }
+
+  async getDailySummary(userId: string, date: string): Promise<DailySummary | null> {
+    const summary = this.state.dailySummaries[`${userId}_${date}`];
+    return summary ? structuredClone(summary) : null;
+  }
+
+  async findDailySummaries(filter: DateRangeQuery): Promise<DailySummary[]> {
+    return Object.values(this.state.dailySummaries)
+      .filter(summary => inDateRange(summary, filter))
+      .map(summary => structuredClone(summary));
+  }
+
+  async findDailySummariesPage(filter: DateRangeQuery, { pageSize, cursor }: PageRequest): Promise<Page<DailySummary>> {
+    const after = cursor ? parseDailySummaryId(cursor) : null;
+    const summaries = Object.values(this.state.dailySummaries)
+      .filter(summary => inDateRange(summary, filter))
+      .filter(summary => !after || compareSummaries(summary, after) > 0)
+      .sort(compareSummaries)
+      .slice(0, pageSize + 1)
+      .map(summary => structuredClone(summary));
+    return toPage(summaries, pageSize, getDailySummaryId);
+  }
+
+  async saveDailySummary(summary: DailySummary): Promise<void> {
+    const { userId, date, sessions: calculatedSessions = {} } = summary;
+    const key = `${userId}_${date}`;
+    const existing = this.state.dailySummaries[key];
+
+    const sessionIds = new Set([...Object.keys(existing?.sessions ?? {}), ...Object.keys(calculatedSessions)]);
+    const currentSessions = getSessionFingerprints(
+      [...sessionIds].map(id => this.state.sessions[id] ?? null),
+      userId,
+      date
+    );
+    if (!isSameSessions(currentSessions, calculatedSessions)) {
+      throw new StaleSummaryError(`Sessions for ${userId} on ${date} changed during the update`);
+    }
+
+    const now = new Date();
+    this.state.dailySummaries[key] = {
+      ...structuredClone(summary),
+      createdAt: existing?.createdAt ?? now,
+      lastUpdated: now
+    };
+    this.save();
+  }
+
+  async applyWeeklyOvertime(userId: string, week: WeeklyOvertime): Promise<void> {
+    const summaries = week.days.map(day => this.state.dailySummaries[`${userId}_${day.date}`]);
+
+    summaries.forEach((summary, index) => {
+      if (!summary || toMetricMinutes(summary, 'totalWorked') !== week.days[index].totalWorkedMinutes) {
+        throw new StaleSummaryError(`Summary for ${userId} on ${week.days[index].date} changed during the update`);
+      }
+    });
+
+    const now = new Date();
+    week.days.forEach((day, index) => {
+      Object.assign(summaries[index], getWeeklyOvertimeFields(day), { lastUpdated: now });
+    });
+    this.save();
+  }
+
+  async deleteDailySummary(userId: string, date: string): Promise<void> {
+    const key = `${userId}_${date}`;
+    const summary = this.state.dailySummaries[key];
+    if (!summary) return;
+
+    const remainingSessions = getSessionFingerprints(
+      Object.keys(summary.sessions ?? {}).map(id => this.state.sessions[id] ?? null),
+      userId,
+      date
+    );
+    if (Object.keys(remainingSessions).length > 0) {
+      throw new StaleSummaryError(`Sessions for ${userId} on ${date} changed during the update`);
+    }
+
+    delete this.state.dailySummaries[key];
+    this.save();
+  }
+
+  async getHolidays(startDate: string, endDate: string): Promise<Holiday[]> {
+    return Object.values(this.state.holidays)
+      .filter(holiday => holiday.date >= startDate && holiday.date <= endDate)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(holiday => structuredClone(holiday));
+  }
+
+  async createHoliday(holiday: Holiday): Promise<string> {
+    const id = crypto.randomUUID();
+    this.state.holidays[id] = { id, date: holiday.date, name: holiday.name, type: holiday.type };
+    this.save();
+    return id;
+  }
+
+  async updateHoliday(holidayId: string, holiday: Holiday): Promise<void> {
+    if (!this.state.holidays[holidayId]) throw new Error(`Holiday ${holidayId} not found`);
+    this.state.holidays[holidayId] = { id: holidayId, date: holiday.date, name: holiday.name, type: holiday.type };
+    this.save();
+  }
+
+  async deleteHoliday(holidayId: string): Promise<void> {
+    delete this.state.holidays[holidayId];
+    this.save();
+  }
+
+  async getOvertimeApproval(userId: string, date: string): Promise<OvertimeApproval | null> {
+    const approval = this.state.overtimeApprovals[`${userId}_${date}`];
+    return approval ? structuredClone(approval) : null;
+  }
+
+  async findOvertimeApprovals(filter: DateRangeQuery): Promise<OvertimeApproval[]> {
+    return Object.values(this.state.overtimeApprovals)
+      .filter(approval => inDateRange(approval, filter))
+      .map(approval => structuredClone(approval));
+  }
+
+  async saveOvertimeApproval(approval: OvertimeApproval): Promise<void> {
+    const id = `${approval.userId}_${approval.date}`;
+    this.state.overtimeApprovals[id] = {
+      id,
+      userId: approval.userId,
+      date: approval.date,
+      approvedMinutes: approval.approvedMinutes,
+      reason: approval.reason || '',
+      approvedBy: approval.approvedBy || ''
+    };
+    this.save();
+  }
+}
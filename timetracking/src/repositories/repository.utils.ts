@@ -0,0 +1,129 @@
+/**
+ * Repository Utility Functions
+ * Rules every storage adapter applies the same way
+ */
+
+import { getSessionFingerprint } from '../shared/timeCalculator';
+import type { AttendanceRecord, AuditSnapshot, ClosedAttendanceRecord, Page, SessionQuery, WeeklyOvertime } from '../types';
+
+/**
+ * Thrown when a daily summary was calculated from sessions that changed before
+ * it could be saved; the summary has to be calculated again
+ */
+export class StaleSummaryError extends Error {}
+
+/**
+ * A sign-up or sign-in failure, with a code matching Firebase Auth's
+ */
+export class AccountError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export function isClosedSession(record: AttendanceRecord): record is ClosedAttendanceRecord {
+  return record.status === 'closed' && record.punchOut !== null;
+}
+
+/**
+ * True when a session matches every filter in the query
+ */
+export function matchesSessionQuery(record: AttendanceRecord, filter: SessionQuery): boolean {
+  return (!filter.status || record.status === filter.status)
+    && (!filter.userId || record.userId === filter.userId)
+    && (!filter.date || record.date === filter.date)
+    && (!filter.startDate || record.date >= filter.startDate)
+    && (!filter.endDate || record.date <= filter.endDate)
+    && (!filter.calculationStatus || record.calculationStatus === filter.calculationStatus);
+}
+
+/**
+ * The ID a daily summary is stored under
+ */
+export function getDailySummaryId({ userId, date }: { userId: string; date: string }): string {
+  return `${userId}_${date}`;
+}
+
+/**
+ * The user and date of a daily summary ID; dates never contain an underscore
+ */
+export function parseDailySummaryId(id: string): { userId: string; date: string } {
+  const separator = id.lastIndexOf('_');
+  return { userId: id.slice(0, separator), date: id.slice(separator + 1) };
+}
+
+/**
+ * A page from up to one more item than the page size; the extra item only
+ * shows that another page follows
+ */
+export function toPage<T>(items: T[], pageSize: number, getId: (item: T) => string): Page<T> {
+  const pageItems = items.slice(0, pageSize);
+  return {
+    items: pageItems,
+    nextCursor: items.length > pageSize ? getId(pageItems[pageItems.length - 1]) : null
+  };
+}
+
+/**
+ * Fingerprints of the sessions that count toward a user's business date,
+ * keyed by session ID; sessions that are missing, not closed or belong
+ * elsewhere are left out
+ */
+export function getSessionFingerprints(
+  records: Array<AttendanceRecord | null>,
+  userId: string,
+  date: string
+): Record<string, string> {
+  const fingerprints: Record<string, string> = {};
+
+  for (const record of records) {
+    if (!record || !isClosedSession(record) || record.userId !== userId || record.date !== date) continue;
+    fingerprints[record.id] = getSessionFingerprint(record.punchIn, record.punchOut);
+  }
+
+  return fingerprints;
+}
+
+/**
+ * True when both maps hold the same sessions with the same punches
+ */
+export function isSameSessions(a: Record<string, string>, b: Record<string, string>): boolean {
+  const ids = Object.keys(a);
+  return ids.length === Object.keys(b).length && ids.every(id => a[id] === b[id]);
+}
+
+/**
+ * A session as recorded in the audit log
+ */
+export function toAuditSnapshot(record: AttendanceRecord): AuditSnapshot {
+  return {
+    userId: record.userId,
+    date: record.date,
+    status: record.status,
+    punchIn: record.punchIn.toISOString(),
+    punchOut: record.punchOut?.toISOString() ?? null,
+    metrics: record.metrics
+  };
+}
+
+/**
+ * The summary fields weekly-threshold overtime replaces for one day
+ * Regular and overtime minutes take the weekly split; the daily overtime
+ * categories are cleared since they do not apply in weekly mode.
+ */
+export function getWeeklyOvertimeFields(day: WeeklyOvertime['days'][number]) {
+  return {
+    regularMinutes: day.regularMinutes,
+    overtimeMinutes: day.weeklyOvertimeMinutes,
+    weeklyOvertimeMinutes: day.weeklyOvertimeMinutes,
+    preShiftOvertimeMinutes: 0,
+    postShiftOvertimeMinutes: 0,
+    restDayOvertimeMinutes: 0,
+    overtimeNightDiffMinutes: 0,
+    restDayMinutes: 0,
+    overtimeMode: 'weekly' as const
+  };
+}
@@ -1,19 +1,57 @@
 /**
  * API Service Layer
  * Handles all HTTP requests to the backend API
+ * Calculations fall back to the shared calculator when the API is down
  */
 
-import type { Schedule, TimeMetrics } from '../types';
+import {
+  batchCalculateTimeMetrics,
+  calculateDailyMetrics,
+  calculateGrossPay,
+  calculateTimeMetrics,
+  calculateWeeklyOvertime,
+  classifyScheduleDays,
+  explainTimeMetrics
+} from '../shared/timeCalculator';
+import type {
+  CalculationPolicy,
+  CalculationTrace,
+  DailyMetrics,
+  DateRangeQuery,
+  DayClassification,
+  PayBreakdown,
+  PayMultipliers,
+  PayRate,
+  Schedule,
+  SummaryRebuildReport,
+  TimeMetrics,
+  WeeklyOvertime
+} from '../types';
 
 // Use relative URL in production (Firebase rewrites handle /api/* routes)
 // Use localhost in development
 const API_BASE_URL = import.meta.env.VITE_API_URL ||
   (import.meta.env.MODE === 'production' ? '' : 'https://time-tracking-60bab.web.app/');
 
+// Gateway errors mean the API is down rather than that it rejected the request
+const UNAVAILABLE_STATUSES = [502, 503, 504];
+
+class ApiUnavailableError extends Error {}
+
+/**
+ * True when a request failed because the API could not be reached
+ * (fetch rejects with a TypeError on network failures)
+ */
+function isApiUnavailable(error: unknown): boolean {
+  return error instanceof TypeError || error instanceof ApiUnavailableError;
+}
+
 interface TimeCalculationRequest {
   punchIn: string;
   punchOut: string;
   schedule: Schedule;
+  policy?: CalculationPolicy;
+  approvedOvertimeMinutes?: number;
 }
 
 interface TimeCalculationResponse {
@@ -21,9 +59,15 @@ interface TimeCalculationResponse {
   data: TimeMetrics;
 }
 
+interface TimeCalculationTraceResponse {
+  success: boolean;
+  data: CalculationTrace;
+}
+
 interface BatchTimeCalculationRequest {
   attendanceRecords: Array<{ punchIn: string; punchOut: string }>;
   schedule: Schedule;
+  policy?: CalculationPolicy;
 }
 
 interface BatchTimeCalculationResponse {
@@ -36,6 +80,61 @@ interface BatchTimeCalculationResponse {
   }>;
 }
 
+interface DailyCalculationRequest {
+  sessions: Array<{ punchIn: string; punchOut: string }>;
+  schedule: Schedule;
+  policy?: CalculationPolicy;
+  approvedOvertimeMinutes?: number;
+}
+
+interface DailyCalculationResponse {
+  success: boolean;
+  data: DailyMetrics;
+}
+
+interface PayCalculationRequest {
+  metrics: TimeMetrics[];
+  payRate: PayRate;
+  multipliers?: PayMultipliers;
+}
+
+interface PayCalculationResponse {
+  success: boolean;
+  data: PayBreakdown;
+}
+
+interface WeeklyOvertimeRequest {
+  days: Array<{ date: string; totalWorkedHours?: string; totalWorkedMinutes?: number }>;
+  thresholdMinutes?: number;
+}
+
+interface WeeklyOvertimeResponse {
+  success: boolean;
+  data: WeeklyOvertime;
+}
+
+interface ClassifyDaysRequest {
+  startDate: string;
+  endDate: string;
+  workedDates: string[];
+  schedule: Schedule;
+}
+
+interface ClassifyDaysResponse {
+  success: boolean;
+  data: DayClassification[];
+}
+
+interface SummaryRebuildRequest extends DateRangeQuery {
+  schedule: Schedule;
+  policy?: CalculationPolicy;
+}
+
+interface SummaryRebuildResponse {
+  success: boolean;
+  data: SummaryRebuildReport;
+}
+
 interface HealthCheckResponse {
   status: string;
   timestamp: string;
@@ -48,7 +147,9 @@ export class ApiService {
   static async calculateTimeMetrics(
     punchIn: Date,
     punchOut: Date,
-    schedule: Schedule
+    schedule: Schedule,
+    policy?: CalculationPolicy,
+    approvedOvertimeMinutes?: number
   ): Promise<TimeMetrics> {
     try {
       const response = await fetch(`${API_BASE_URL}/api/calculate-time`, {
@@ -59,10 +160,16 @@ export class ApiService {
         body: JSON.stringify({
           punchIn: punchIn.toISOString(),
           punchOut: punchOut.toISOString(),
-          schedule
+          schedule,
+          policy,
+          approvedOvertimeMinutes
         } as TimeCalculationRequest)
       });
 
+      if (UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new ApiUnavailableError(`API unavailable (${response.status})`);
+      }
+
       if (!response.ok) {
         const errorText = await response.text();
         throw new Error(`Failed to calculate time metrics: ${errorText}`);
@@ -71,17 +178,69 @@ export class ApiService {
       const result: TimeCalculationResponse = await response.json();
       return result.data;
     } catch (error) {
+      if (isApiUnavailable(error)) {
+        console.warn('API unavailable, calculating time metrics locally:', error);
+        return calculateTimeMetrics({ punchIn, punchOut, approvedOvertimeMinutes }, schedule, policy);
+      }
       console.error('Error calculating time metrics:', error);
       throw error;
     }
   }
 
+  /**
+   * Calculate time metrics for a single attendance record along with the trace
+   * of how each value was produced
+   */
+  static async explainTimeMetrics(
+    punchIn: Date,
+    punchOut: Date,
+    schedule: Schedule,
+    policy?: CalculationPolicy,
+    approvedOvertimeMinutes?: number
+  ): Promise<CalculationTrace> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/calculate-time/explain`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          punchIn: punchIn.toISOString(),
+          punchOut: punchOut.toISOString(),
+          schedule,
+          policy,
+          approvedOvertimeMinutes
+        } as TimeCalculationRequest)
+      });
+
+      if (UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new ApiUnavailableError(`API unavailable (${response.status})`);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to explain time metrics: ${errorText}`);
+      }
+
+      const result: TimeCalculationTraceResponse = await response.json();
+      return result.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        console.warn('API unavailable, explaining time metrics locally:', error);
+        return explainTimeMetrics({ punchIn, punchOut, approvedOvertimeMinutes }, schedule, policy);
+      }
+      console.error('Error explaining time metrics:', error);
+      throw error;
+    }
+  }
+
   /**
    * Calculate time metrics for multiple attendance records
    */
   static async batchCalculateTimeMetrics(
     attendanceRecords: Array<{ punchIn: string; punchOut: string }>,
-    schedule: Schedule
+    schedule: Schedule,
+    policy?: CalculationPolicy
   ): Promise<BatchTimeCalculationResponse['data']> {
     try {
       const response = await fetch(`${API_BASE_URL}/api/calculate-time-batch`, {
@@ -91,10 +250,15 @@ export class ApiService {
         },
         body: JSON.stringify({
           attendanceRecords,
-          schedule
+          schedule,
+          policy
         } as BatchTimeCalculationRequest)
       });
 
+      if (UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new ApiUnavailableError(`API unavailable (${response.status})`);
+      }
+
       if (!response.ok) {
         const errorText = await response.text();
         throw new Error(`Failed to batch calculate time metrics: ${errorText}`);
@@ -103,11 +267,264 @@ export class ApiService {
       const result: BatchTimeCalculationResponse = await response.json();
       return result.data;
     } catch (error) {
+      if (isApiUnavailable(error)) {
+        console.warn('API unavailable, batch calculating time metrics locally:', error);
+        return batchCalculateTimeMetrics(attendanceRecords, schedule, policy);
+      }
       console.error('Error batch calculating time metrics:', error);
       throw error;
     }
   }
 
+  /**
+   * Calculate day-level metrics from all of a user's sessions on one date
+   * approvedOvertimeMinutes is shared across the sessions when the policy requires approval
+   */
+  static async calculateDailyMetrics(
+    sessions: Array<{ punchIn: Date; punchOut: Date }>,
+    schedule: Schedule,
+    policy?: CalculationPolicy,
+    approvedOvertimeMinutes?: number
+  ): Promise<DailyMetrics> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/calculate-daily`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          sessions: sessions.map(({ punchIn, punchOut }) => ({
+            punchIn: punchIn.toISOString(),
+            punchOut: punchOut.toISOString()
+          })),
+          schedule,
+          policy,
+          approvedOvertimeMinutes
+        } as DailyCalculationRequest)
+      });
+
+      if (UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new ApiUnavailableError(`API unavailable (${response.status})`);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to calculate daily metrics: ${errorText}`);
+      }
+
+      const result: DailyCalculationResponse = await response.json();
+      return result.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        console.warn('API unavailable, calculating daily metrics locally:', error);
+        return calculateDailyMetrics(sessions, schedule, policy, approvedOvertimeMinutes);
+      }
+      console.error('Error calculating daily metrics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate gross pay line items for a set of time metrics
+   */
+  static async calculateGrossPay(
+    metrics: TimeMetrics[],
+    payRate: PayRate,
+    multipliers?: PayMultipliers
+  ): Promise<PayBreakdown> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/calculate-pay`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          metrics,
+          payRate,
+          multipliers
+        } as PayCalculationRequest)
+      });
+
+      if (UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new ApiUnavailableError(`API unavailable (${response.status})`);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to calculate gross pay: ${errorText}`);
+      }
+
+      const result: PayCalculationResponse = await response.json();
+      return result.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        console.warn('API unavailable, calculating gross pay locally:', error);
+        return calculateGrossPay(metrics, payRate, multipliers);
+      }
+      console.error('Error calculating gross pay:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reclassify a workweek's daily hours against a weekly overtime threshold
+   */
+  static async calculateWeeklyOvertime(
+    days: WeeklyOvertimeRequest['days'],
+    thresholdMinutes?: number
+  ): Promise<WeeklyOvertime> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/calculate-weekly-overtime`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          days,
+          thresholdMinutes
+        } as WeeklyOvertimeRequest)
+      });
+
+      if (UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new ApiUnavailableError(`API unavailable (${response.status})`);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to calculate weekly overtime: ${errorText}`);
+      }
+
+      const result: WeeklyOvertimeResponse = await response.json();
+      return result.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        console.warn('API unavailable, calculating weekly overtime locally:', error);
+        return calculateWeeklyOvertime(days, thresholdMinutes);
+      }
+      console.error('Error calculating weekly overtime:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Classify days in a date range as present, absent, rest day or rest-day work
+   */
+  static async classifyScheduleDays(
+    schedule: Schedule,
+    startDate: string,
+    endDate: string,
+    workedDates: string[] = []
+  ): Promise<DayClassification[]> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/classify-days`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          startDate,
+          endDate,
+          workedDates,
+          schedule
+        } as ClassifyDaysRequest)
+      });
+
+      if (UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new ApiUnavailableError(`API unavailable (${response.status})`);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to classify schedule days: ${errorText}`);
+      }
+
+      const result: ClassifyDaysResponse = await response.json();
+      return result.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        console.warn('API unavailable, classifying schedule days locally:', error);
+        return classifyScheduleDays(schedule, startDate, endDate, workedDates);
+      }
+      console.error('Error classifying schedule days:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate a closed session stored in Firestore, and rebuild the daily
+   * summaries it touches
+   * The server reads the session and saves the metrics itself, so it needs the
+   * signed-in employee's or an admin's ID token, and there is no local fallback.
+   */
+  static async calculateSession(sessionId: string, idToken: string): Promise<TimeMetrics> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/sessions/${encodeURIComponent(sessionId)}/calculate`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${idToken}`
+        }
+      });
+
+      if (UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new ApiUnavailableError(`API unavailable (${response.status})`);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to calculate session: ${errorText}`);
+      }
+
+      const result: TimeCalculationResponse = await response.json();
+      return result.data;
+    } catch (error) {
+      console.error('Error calculating session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the stored daily summaries from completed sessions, reporting what
+   * changed
+   * The server reads and saves the data itself, so it needs a signed-in
+   * admin's ID token, and there is no local fallback.
+   */
+  static async rebuildDailySummaries(
+    range: DateRangeQuery,
+    schedule: Schedule,
+    policy: CalculationPolicy | undefined,
+    idToken: string
+  ): Promise<SummaryRebuildReport> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rebuild-summaries`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${idToken}`
+        },
+        body: JSON.stringify({
+          ...range,
+          schedule,
+          policy
+        } as SummaryRebuildRequest)
+      });
+
+      if (UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new ApiUnavailableError(`API unavailable (${response.status})`);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to rebuild daily summaries: ${errorText}`);
+      }
+
+      const result: SummaryRebuildResponse = await response.json();
+      return result.data;
+    } catch (error) {
+      console.error('Error rebuilding daily summaries:', error);
+      throw error;
+    }
+  }
+
   /**
    * Check API health status
    */
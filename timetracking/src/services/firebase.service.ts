@@ -1,52 +1,78 @@
 /**
  * Firebase Service Layer
- * Handles all Firebase operations with proper error handling
+ * Handles all data operations with proper error handling, through the
+ * repository for the configured storage adapter (Firestore by default)
  */
 
-import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  getDoc,
-  getDocs,
-  query,
-  serverTimestamp,
-  setDoc,
-  Timestamp,
-  updateDoc,
-  where,
-  type DocumentData
-} from 'firebase/firestore';
-import { db } from '../firebase';
-import type { AttendanceRecord, DailySummary, TimeMetrics, User } from '../types';
+import { repository, StaleSummaryError } from '../repositories';
+import { getDailySummaryId, isClosedSession } from '../repositories/repository.utils';
+import { buildDailySummary, type CompletedSession } from '../shared/timeCalculator';
+import type {
+  AttendanceRecord,
+  AuditDetails,
+  AuditLogEntry,
+  ClosedAttendanceRecord,
+  DailyMetrics,
+  DailySummary,
+  Holiday,
+  OvertimeApproval,
+  Page,
+  PageRequest,
+  PendingCalculation,
+  SortDirection,
+  TimeMetrics,
+  User,
+  UserRole,
+  WeeklyOvertime
+} from '../types';
+
+export { StaleSummaryError };
 
 export class FirebaseService {
   /**
-   * Get user data from Firestore
+   * Get user data
    */
   static async getUser(userId: string): Promise<User | null> {
     try {
-      const userDoc = await getDoc(doc(db, 'users', userId));
-      if (userDoc.exists()) {
-        return userDoc.data() as User;
-      }
-      return null;
+      return await repository.getUser(userId);
     } catch (error) {
       console.error('Error fetching user:', error);
       throw new Error('Failed to fetch user data');
     }
   }
 
+  /**
+   * Get all employee accounts (admins excluded)
+   */
+  static async getEmployees(): Promise<User[]> {
+    try {
+      return await repository.getEmployees();
+    } catch (error) {
+      console.error('Error fetching employees:', error);
+      throw new Error('Failed to fetch employees');
+    }
+  }
+
+  /**
+   * Get every user account, admins included
+   */
+  static async getUsers(): Promise<User[]> {
+    try {
+      return await repository.getUsers();
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      throw new Error('Failed to fetch users');
+    }
+  }
+
   /**
    * Get user name from userId
    */
   static async getUserName(userId: string): Promise<string> {
     try {
-      const userDoc = await getDoc(doc(db, 'users', userId));
-      if (userDoc.exists()) {
-        const data = userDoc.data();
-        return data.name || data.email || 'Unknown User';
+      const user = await repository.getUser(userId);
+      if (user) {
+        return user.name || user.email || 'Unknown User';
       }
       return userId;
     } catch (error) {
@@ -56,15 +82,11 @@ export class FirebaseService {
   }
 
   /**
-   * Save user to Firestore
+   * Save user data
    */
   static async saveUser(userId: string, userData: Partial<User>): Promise<void> {
     try {
-      await setDoc(doc(db, 'users', userId), {
-        ...userData,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      });
+      await repository.saveUser(userId, userData);
     } catch (error) {
       console.error('Error saving user:', error);
       throw new Error('Failed to save user data');
@@ -72,111 +94,96 @@ export class FirebaseService {
   }
 
   /**
-   * Create punch in record
+   * Change a user's role
+   * firestore.rules only lets admins write the role, so this fails for anyone
+   * else.
    */
-  static async createPunchIn(userId: string, userEmail: string, userName: string, date: string): Promise<string> {
+  static async setUserRole(userId: string, role: UserRole): Promise<void> {
     try {
-      const attendanceData: Partial<AttendanceRecord> = {
-        userId,
-        userEmail,
-        userName,
-        punchIn: serverTimestamp(),
-        punchOut: undefined,
-        type: 'punch_in',
-        timestamp: serverTimestamp(),
-        date
-      };
-
-      const docRef = await addDoc(collection(db, 'attendance'), attendanceData);
-      return docRef.id;
+      await repository.setUserRole(userId, role);
     } catch (error) {
-      console.error('Error creating punch in:', error);
-      throw new Error('Failed to save punch in');
+      console.error('Error updating user role:', error);
+      throw new Error('Failed to update user role');
     }
   }
 
   /**
-   * Update punch out record
+   * Create a sign-in account, returning the new user ID
+   * Errors are passed through with their `auth/...` code for the sign-up form.
    */
-  static async updatePunchOut(
-    attendanceId: string,
-    duration: number,
-    metrics?: TimeMetrics
-  ): Promise<void> {
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const updateData: any = {
-        punchOut: serverTimestamp(),
-        duration,
-        type: 'completed'
-      };
-
-      if (metrics) {
-        updateData.metrics = metrics;
-        updateData.regularHours = parseFloat(metrics.regularHours);
-        updateData.overtimeHours = parseFloat(metrics.overtimeHours);
-        updateData.nightDiffHours = parseFloat(metrics.nightDiffHours);
-        updateData.lateMinutes = metrics.lateMinutes;
-        updateData.undertimeMinutes = metrics.undertimeMinutes;
-      }
+  static async createAccount(email: string, password: string): Promise<string> {
+    return repository.createAccount(email, password);
+  }
 
-      await updateDoc(doc(db, 'attendance', attendanceId), updateData);
+  /**
+   * Sign in, returning the user ID
+   * Errors are passed through with their `auth/...` code for the sign-in form.
+   */
+  static async signIn(email: string, password: string): Promise<string> {
+    return repository.signIn(email, password);
+  }
+
+  /**
+   * The signed-in user's ID token, for API endpoints that read and write
+   * Firestore themselves; null with the in-memory storage adapters
+   */
+  static async getIdToken(): Promise<string | null> {
+    return repository.getIdToken();
+  }
+
+  /**
+   * Get the session a user punched in to and has not punched out of yet, if any
+   */
+  static async getOpenSession(userId: string): Promise<AttendanceRecord | null> {
+    try {
+      const [openSession] = await repository.findSessions({ userId, status: 'open' });
+      return openSession ?? null;
     } catch (error) {
-      console.error('Error updating punch out:', error);
-      throw new Error('Failed to save punch out');
+      console.error('Error fetching open session:', error);
+      throw new Error('Failed to fetch open session');
     }
   }
 
   /**
-   * Create punch out record (separate document)
+   * Open a session for a user's punch in
+   * Fails if the user already has an open session, so a user never has more
+   * than one; the punch clock resumes it instead.
    */
-  static async createPunchOutRecord(
-    userId: string,
-    userEmail: string,
-    userName: string,
-    date: string,
-    sessionId: string,
-    duration: number,
-    metrics?: TimeMetrics
-  ): Promise<void> {
+  static async openSession(userId: string, userEmail: string, userName: string, date: string): Promise<string> {
     try {
-      const punchOutData: Partial<AttendanceRecord> = {
-        userId,
-        userEmail,
-        userName,
-        punchOut: serverTimestamp(),
-        type: 'punch_out',
-        timestamp: serverTimestamp(),
-        date,
-        relatedSessionId: sessionId,
-        duration
-      };
-
-      if (metrics) {
-        punchOutData.metrics = metrics;
-      }
-
-      await addDoc(collection(db, 'attendance'), punchOutData);
+      return await repository.openSession({ userId, userEmail, userName, date });
     } catch (error) {
-      console.error('Error creating punch out record:', error);
-      throw new Error('Failed to create punch out record');
+      console.error('Error opening session:', error);
+      throw new Error('Failed to save punch in');
     }
   }
 
   /**
-   * Get attendance records for a specific date
+   * Close an open session at punch out
+   * The session is pending until its metrics are saved, by
+   * SummaryService.calculateSession or else the reconciler, rather than saved
+   * with zeroed metrics.
    */
-  static async getAttendanceByDate(date: string): Promise<DocumentData[]> {
+  static async closeSession(sessionId: string): Promise<void> {
     try {
-      const attendanceRef = collection(db, 'attendance');
-      const q = query(
-        attendanceRef,
-        where('date', '==', date),
-        where('type', '==', 'completed')
-      );
+      await repository.closeSession(sessionId);
+    } catch (error) {
+      console.error('Error closing session:', error);
+      throw new Error('Failed to save punch out');
+    }
+  }
 
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  /**
+   * Get a page of the closed sessions for a specific date, ordered by punch in
+   */
+  static async getAttendanceByDate(
+    date: string,
+    page: PageRequest,
+    direction: SortDirection = 'desc'
+  ): Promise<Page<ClosedAttendanceRecord>> {
+    try {
+      const { items, nextCursor } = await repository.findSessionsPage({ date, status: 'closed' }, page, direction);
+      return { items: items.filter(isClosedSession), nextCursor };
     } catch (error) {
       console.error('Error fetching attendance:', error);
       throw new Error('Failed to fetch attendance records');
@@ -188,91 +195,173 @@ export class FirebaseService {
    */
   static async getDailySummary(userId: string, date: string): Promise<DailySummary | null> {
     try {
-      const summaryId = `${userId}_${date}`;
-      const summaryDoc = await getDoc(doc(db, 'dailySummary', summaryId));
-
-      if (summaryDoc.exists()) {
-        return summaryDoc.data() as DailySummary;
-      }
-      return null;
+      return await repository.getDailySummary(userId, date);
     } catch (error) {
       console.error('Error fetching daily summary:', error);
       throw new Error('Failed to fetch daily summary');
     }
   }
 
+  /**
+   * Get a user's closed sessions for a business date
+   */
+  static async getCompletedSessions(
+    userId: string,
+    date: string
+  ): Promise<Array<{ id: string; punchIn: Date; punchOut: Date }>> {
+    try {
+      const records = await repository.findSessions({ userId, date, status: 'closed' });
+      return records
+        .filter(isClosedSession)
+        .map(({ id, punchIn, punchOut }) => ({ id, punchIn, punchOut }));
+    } catch (error) {
+      console.error('Error fetching completed sessions:', error);
+      throw new Error('Failed to fetch completed sessions');
+    }
+  }
+
+  /**
+   * Get closed sessions, optionally for one user and an inclusive range of
+   * business dates
+   */
+  static async getCompletedSessionsInRange(
+    userId?: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<CompletedSession[]> {
+    try {
+      const records = await repository.findSessions({ userId, startDate, endDate, status: 'closed' });
+      return records
+        .filter(isClosedSession)
+        .map(({ id, userId, date, punchIn, punchOut }) => ({ id, userId, date, punchIn, punchOut }));
+    } catch (error) {
+      console.error('Error fetching completed sessions:', error);
+      throw new Error('Failed to fetch completed sessions');
+    }
+  }
+
+  /**
+   * Get closed sessions saved without metrics, optionally for one user, with
+   * why the last retry failed
+   */
+  static async getPendingCalculations(userId?: string): Promise<PendingCalculation[]> {
+    try {
+      const records = await repository.findSessions({ userId, status: 'closed', calculationStatus: 'pending' });
+      return records
+        .filter(isClosedSession)
+        .map(({ id, userId, userName, date, punchIn, punchOut, calculationError, calculationAttempts }) => ({
+          id,
+          userId,
+          userName,
+          date,
+          punchIn,
+          punchOut,
+          calculationError,
+          calculationAttempts: calculationAttempts ?? 0
+        }));
+    } catch (error) {
+      console.error('Error fetching pending calculations:', error);
+      throw new Error('Failed to fetch pending calculations');
+    }
+  }
+
+  /**
+   * Save the metrics for a closed session and clear its pending marker
+   * The date moves to the calculated business date (overnight shifts belong
+   * to the day they started); duration is in seconds
+   */
+  static async saveSessionMetrics(
+    attendanceId: string,
+    date: string,
+    duration: number,
+    metrics: TimeMetrics
+  ): Promise<void> {
+    try {
+      await repository.saveSessionMetrics(attendanceId, date, duration, metrics);
+    } catch (error) {
+      console.error('Error saving session metrics:', error);
+      throw new Error('Failed to save session metrics');
+    }
+  }
+
+  /**
+   * Record a failed retry of a pending session; it stays pending
+   */
+  static async recordCalculationFailure(attendanceId: string, calculationError: string): Promise<void> {
+    try {
+      await repository.recordCalculationFailure(attendanceId, calculationError);
+    } catch (error) {
+      console.error('Error recording calculation failure:', error);
+      throw new Error('Failed to record calculation failure');
+    }
+  }
+
   /**
    * Update or create daily summary
+   * Overwrites the summary with day-level metrics computed from all of the
+   * day's sessions, so late and undertime are not added up per session.
    */
   static async updateDailySummary(
     userId: string,
     date: string,
-    metrics: TimeMetrics
+    metrics: DailyMetrics,
+    sessions: Array<{ id: string; punchIn: Date; punchOut: Date }>
   ): Promise<void> {
+    await this.saveDailySummary(buildDailySummary(userId, date, metrics, sessions));
+  }
+
+  /**
+   * Save a daily summary, replacing the one stored for its user and date
+   * The sessions the summary covers are re-read in the same write: if a
+   * session was added, edited or removed since the summary was calculated,
+   * nothing is written and a StaleSummaryError is thrown. Sessions are keyed by
+   * attendance ID, so saving the same punch-out twice never counts it twice.
+   */
+  static async saveDailySummary(summary: DailySummary): Promise<void> {
     try {
-      const summaryId = `${userId}_${date}`;
-      const summaryRef = doc(db, 'dailySummary', summaryId);
-      const summarySnap = await getDoc(summaryRef);
-
-      if (summarySnap.exists()) {
-        // Update existing summary
-        const existing = summarySnap.data();
-        const updatedData = {
-          totalWorkedHours: (
-            parseFloat(existing.totalWorkedHours || '0') + parseFloat(metrics.totalWorkedHours)
-          ).toFixed(2),
-          regularHours: (
-            parseFloat(existing.regularHours || '0') + parseFloat(metrics.regularHours)
-          ).toFixed(2),
-          overtimeHours: (
-            parseFloat(existing.overtimeHours || '0') + parseFloat(metrics.overtimeHours)
-          ).toFixed(2),
-          nightDiffHours: (
-            parseFloat(existing.nightDiffHours || '0') + parseFloat(metrics.nightDiffHours)
-          ).toFixed(2),
-          totalLateMinutes: (existing.totalLateMinutes || 0) + metrics.lateMinutes,
-          totalUndertimeMinutes: (existing.totalUndertimeMinutes || 0) + metrics.undertimeMinutes,
-          lastUpdated: serverTimestamp()
-        };
-
-        await updateDoc(summaryRef, updatedData);
-      } else {
-        // Create new summary
-        const newSummary: DailySummary = {
-          userId,
-          date,
-          totalWorkedHours: metrics.totalWorkedHours,
-          regularHours: metrics.regularHours,
-          overtimeHours: metrics.overtimeHours,
-          nightDiffHours: metrics.nightDiffHours,
-          totalLateMinutes: metrics.lateMinutes,
-          totalUndertimeMinutes: metrics.undertimeMinutes,
-          createdAt: serverTimestamp(),
-          lastUpdated: serverTimestamp()
-        };
-
-        await setDoc(summaryRef, newSummary);
-      }
+      await repository.saveDailySummary(summary);
     } catch (error) {
+      if (error instanceof StaleSummaryError) throw error;
       console.error('Error updating daily summary:', error);
       throw new Error('Failed to update daily summary');
     }
   }
 
   /**
-   * Get daily summaries for a specific date
+   * Apply weekly-threshold overtime to a user's daily summaries
+   * Regular and overtime minutes are replaced by the weekly split; the daily
+   * overtime categories are cleared since they do not apply in weekly mode.
+   * Throws a StaleSummaryError, writing nothing, if a day's worked minutes
+   * changed since the week was calculated.
    */
-  static async getDailySummariesByDate(date: string): Promise<DocumentData[]> {
+  static async applyWeeklyOvertime(userId: string, week: WeeklyOvertime): Promise<void> {
     try {
-      const summariesRef = collection(db, 'dailySummary');
-      const q = query(summariesRef, where('date', '==', date));
-      const querySnapshot = await getDocs(q);
+      await repository.applyWeeklyOvertime(userId, week);
+    } catch (error) {
+      if (error instanceof StaleSummaryError) throw error;
+      console.error('Error applying weekly overtime:', error);
+      throw new Error('Failed to apply weekly overtime');
+    }
+  }
 
-      console.log('Firebase getDailySummariesByDate - Query:', { date });
-      console.log('Firebase getDailySummariesByDate - Docs count:', querySnapshot.docs.length);
-      console.log('Firebase getDailySummariesByDate - All docs:', querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })));
+  /**
+   * Get daily summaries, optionally for one user and an inclusive date range
+   */
+  static async getDailySummaries(userId?: string, startDate?: string, endDate?: string): Promise<DailySummary[]> {
+    try {
+      return await repository.findDailySummaries({ userId, startDate, endDate });
+    } catch (error) {
+      console.error('Error fetching daily summaries:', error);
+      throw new Error('Failed to fetch daily summaries');
+    }
+  }
 
-      return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  /**
+   * Get a page of the daily summaries for a specific date, ordered by user
+   */
+  static async getDailySummariesByDate(date: string, page: PageRequest): Promise<Page<DailySummary>> {
+    try {
+      return await repository.findDailySummariesPage({ startDate: date, endDate: date }, page);
     } catch (error) {
       console.error('Error fetching daily summaries:', error);
       throw new Error('Failed to fetch daily summaries');
@@ -280,19 +369,27 @@ export class FirebaseService {
   }
 
   /**
-   * Get daily summaries for a date range
+   * Get a page of the daily summaries for a date range, ordered by user, then
+   * date
+   * Pages end on a whole user, so a user's summaries for the range are never
+   * split across pages as long as the page size is more than the days in the
+   * range.
    */
-  static async getDailySummariesByDateRange(startDate: string, endDate: string): Promise<DocumentData[]> {
+  static async getDailySummariesByDateRange(
+    startDate: string,
+    endDate: string,
+    page: PageRequest
+  ): Promise<Page<DailySummary>> {
     try {
-      const summariesRef = collection(db, 'dailySummary');
-      const q = query(
-        summariesRef,
-        where('date', '>=', startDate),
-        where('date', '<=', endDate)
-      );
-      const querySnapshot = await getDocs(q);
+      const { items, nextCursor } = await repository.findDailySummariesPage({ startDate, endDate }, page);
+      if (!nextCursor) return { items, nextCursor };
+
+      // The last user's summaries may continue on the next page; leave them for it
+      const lastUserId = items[items.length - 1].userId;
+      const wholeUsers = items.filter(summary => summary.userId !== lastUserId);
+      if (wholeUsers.length === 0) return { items, nextCursor };
 
-      return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+      return { items: wholeUsers, nextCursor: getDailySummaryId(wholeUsers[wholeUsers.length - 1]) };
     } catch (error) {
       console.error('Error fetching daily summaries by range:', error);
       throw new Error('Failed to fetch daily summaries');
@@ -300,25 +397,142 @@ export class FirebaseService {
   }
 
   /**
-   * Delete attendance record
+   * Get holidays within a date range (inclusive), ordered by date
+   */
+  static async getHolidaysByDateRange(startDate: string, endDate: string): Promise<Holiday[]> {
+    try {
+      return await repository.getHolidays(startDate, endDate);
+    } catch (error) {
+      console.error('Error fetching holidays:', error);
+      throw new Error('Failed to fetch holidays');
+    }
+  }
+
+  /**
+   * Create holiday
+   */
+  static async createHoliday(holiday: Holiday): Promise<string> {
+    try {
+      return await repository.createHoliday(holiday);
+    } catch (error) {
+      console.error('Error creating holiday:', error);
+      throw new Error('Failed to create holiday');
+    }
+  }
+
+  /**
+   * Update holiday
+   */
+  static async updateHoliday(holidayId: string, holiday: Holiday): Promise<void> {
+    try {
+      await repository.updateHoliday(holidayId, holiday);
+    } catch (error) {
+      console.error('Error updating holiday:', error);
+      throw new Error('Failed to update holiday');
+    }
+  }
+
+  /**
+   * Delete holiday
    */
-  static async deleteAttendance(attendanceId: string): Promise<void> {
+  static async deleteHoliday(holidayId: string): Promise<void> {
     try {
-      await deleteDoc(doc(db, 'attendance', attendanceId));
+      await repository.deleteHoliday(holidayId);
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      throw new Error('Failed to delete holiday');
+    }
+  }
+
+  /**
+   * Get the overtime approved for a user on a date
+   */
+  static async getOvertimeApproval(userId: string, date: string): Promise<OvertimeApproval | null> {
+    try {
+      return await repository.getOvertimeApproval(userId, date);
+    } catch (error) {
+      console.error('Error fetching overtime approval:', error);
+      throw new Error('Failed to fetch overtime approval');
+    }
+  }
+
+  /**
+   * Get overtime approvals, optionally for one user and an inclusive date range
+   */
+  static async getOvertimeApprovals(userId?: string, startDate?: string, endDate?: string): Promise<OvertimeApproval[]> {
+    try {
+      return await repository.findOvertimeApprovals({ userId, startDate, endDate });
+    } catch (error) {
+      console.error('Error fetching overtime approvals:', error);
+      throw new Error('Failed to fetch overtime approvals');
+    }
+  }
+
+  /**
+   * Save the overtime approved for a user on a date
+   * Replaces any earlier approval for the same date.
+   */
+  static async saveOvertimeApproval(approval: OvertimeApproval): Promise<void> {
+    try {
+      await repository.saveOvertimeApproval(approval);
+    } catch (error) {
+      console.error('Error saving overtime approval:', error);
+      throw new Error('Failed to save overtime approval');
+    }
+  }
+
+  /**
+   * Delete attendance record by voiding it, so it drops out of reports but can
+   * be restored; logged to the audit log with the reason
+   */
+  static async deleteAttendance(attendanceId: string, audit: AuditDetails): Promise<void> {
+    try {
+      if (!audit.reason.trim()) throw new Error('A reason is required');
+      await repository.voidSession(attendanceId, audit);
     } catch (error) {
       console.error('Error deleting attendance:', error);
       throw new Error('Failed to delete attendance record');
     }
   }
 
+  /**
+   * Get the deleted sessions for a specific date; sessions voided before they
+   * were punched out cannot be restored and are left out
+   */
+  static async getDeletedAttendanceByDate(date: string): Promise<Array<AttendanceRecord & { punchOut: Date }>> {
+    try {
+      const records = await repository.findSessions({ date, status: 'voided' });
+      return records.filter((record): record is AttendanceRecord & { punchOut: Date } => record.punchOut !== null);
+    } catch (error) {
+      console.error('Error fetching deleted attendance:', error);
+      throw new Error('Failed to fetch deleted attendance records');
+    }
+  }
+
+  /**
+   * Restore a deleted attendance record, logging it to the audit log with the
+   * reason
+   */
+  static async restoreAttendance(attendanceId: string, audit: AuditDetails): Promise<void> {
+    try {
+      if (!audit.reason.trim()) throw new Error('A reason is required');
+      await repository.restoreSession(attendanceId, audit);
+    } catch (error) {
+      console.error('Error restoring attendance:', error);
+      throw new Error('Failed to restore attendance record');
+    }
+  }
+
   /**
    * Delete daily summary
+   * Throws a StaleSummaryError, leaving the summary in place, if any session
+   * it covers still counts toward the date.
    */
   static async deleteDailySummary(userId: string, date: string): Promise<void> {
     try {
-      const summaryId = `${userId}_${date}`;
-      await deleteDoc(doc(db, 'dailySummary', summaryId));
+      await repository.deleteDailySummary(userId, date);
     } catch (error) {
+      if (error instanceof StaleSummaryError) throw error;
       console.error('Error deleting daily summary:', error);
       throw new Error('Failed to delete daily summary');
     }
@@ -327,13 +541,9 @@ export class FirebaseService {
   /**
    * Get attendance record by ID
    */
-  static async getAttendanceById(attendanceId: string): Promise<DocumentData | null> {
+  static async getAttendanceById(attendanceId: string): Promise<AttendanceRecord | null> {
     try {
-      const attendanceDoc = await getDoc(doc(db, 'attendance', attendanceId));
-      if (attendanceDoc.exists()) {
-        return { id: attendanceDoc.id, ...attendanceDoc.data() };
-      }
-      return null;
+      return await repository.getSession(attendanceId);
     } catch (error) {
       console.error('Error fetching attendance by ID:', error);
       throw new Error('Failed to fetch attendance record');
@@ -341,25 +551,35 @@ export class FirebaseService {
   }
 
   /**
-   * Update attendance record
+   * Update attendance record, logging the old and new values to the audit log
+   * with the reason
    */
   static async updateAttendance(
     attendanceId: string,
     punchIn: Date,
     punchOut: Date,
     date: string,
-    metrics: TimeMetrics
+    metrics: TimeMetrics,
+    audit: AuditDetails
   ): Promise<void> {
     try {
-      await updateDoc(doc(db, 'attendance', attendanceId), {
-        punchIn: Timestamp.fromDate(punchIn),
-        punchOut: Timestamp.fromDate(punchOut),
-        date,
-        metrics
-      });
+      if (!audit.reason.trim()) throw new Error('A reason is required');
+      await repository.updateSession(attendanceId, { punchIn, punchOut, date, metrics }, audit);
     } catch (error) {
       console.error('Error updating attendance:', error);
       throw new Error('Failed to update attendance record');
     }
   }
+
+  /**
+   * Get the audit log entries for a session, newest first
+   */
+  static async getAuditLog(recordId: string): Promise<AuditLogEntry[]> {
+    try {
+      return await repository.getAuditLog(recordId);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      throw new Error('Failed to fetch audit log');
+    }
+  }
 }
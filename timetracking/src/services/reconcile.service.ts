@@ -0,0 +1,84 @@
+/**
+ * Reconcile Service Layer
+ * Calculates punches that were saved while the calculation was failing
+ */
+
+import { MAX_CALCULATION_ATTEMPTS } from '../config/constants';
+import { ApiService } from './api.service';
+import { FirebaseService } from './firebase.service';
+import { SummaryService } from './summary.service';
+
+export class ReconcileService {
+  /**
+   * Calculate every employee's pending sessions, then rebuild the daily
+   * summaries they touch
+   * Does nothing while the API is unreachable. A session that still fails stays
+   * pending for the next run, with the error and the number of failed retries
+   * recorded on it. Sessions that have failed MAX_CALCULATION_ATTEMPTS times
+   * are skipped unless retryExhausted is set.
+   * Returns the number of sessions calculated
+   */
+  static async reconcilePendingCalculations(retryExhausted: boolean = false): Promise<number> {
+    try {
+      const pending = (await FirebaseService.getPendingCalculations())
+        .filter(session => retryExhausted || session.calculationAttempts < MAX_CALCULATION_ATTEMPTS);
+      if (pending.length === 0) return 0;
+
+      try {
+        await ApiService.healthCheck();
+      } catch {
+        return 0;
+      }
+
+      const affectedDays = new Map<string, { userId: string; date: string }>();
+      let reconciled = 0;
+
+      for (const session of pending) {
+        try {
+          const { schedule, policy, approvedMinutes } = await SummaryService.getSessionCalculationInputs(
+            session.userId,
+            session.punchIn,
+            session.punchOut,
+            session.date
+          );
+          const metrics = await ApiService.calculateTimeMetrics(
+            session.punchIn,
+            session.punchOut,
+            schedule,
+            policy,
+            approvedMinutes
+          );
+
+          // Overnight shifts belong to the date the shift started
+          const businessDate = metrics.businessDate || session.date;
+          const duration = Math.floor((session.punchOut.getTime() - session.punchIn.getTime()) / 1000);
+          await FirebaseService.saveSessionMetrics(session.id, businessDate, duration, metrics);
+          reconciled++;
+
+          for (const date of [session.date, businessDate]) {
+            affectedDays.set(`${session.userId}_${date}`, { userId: session.userId, date });
+          }
+        } catch (error) {
+          console.error(`Error reconciling session ${session.id}:`, error);
+          try {
+            await FirebaseService.recordCalculationFailure(
+              session.id,
+              error instanceof Error ? error.message : String(error)
+            );
+          } catch {
+            // Still pending; the failure is recorded on the next retry
+          }
+        }
+      }
+
+      for (const { userId: affectedUserId, date } of affectedDays.values()) {
+        await SummaryService.recalculateDailySummary(affectedUserId, date);
+      }
+
+      return reconciled;
+    } catch (error) {
+      console.error('Error reconciling pending calculations:', error);
+      throw new Error('Failed to reconcile pending calculations');
+    }
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Summary Service Layer
+ * Rebuilds daily summaries from a user's completed sessions
+ */
+
+import { DEFAULT_CALCULATION_POLICY, DEFAULT_SCHEDULE, SUMMARY_UPDATE_MAX_ATTEMPTS } from '../config/constants';
+import { rebuildDailySummaries } from '../shared/timeCalculator';
+import type { DailySummary, OvertimePolicy, SessionCalculationInputs, SummaryRebuildReport, TimeMetrics } from '../types';
+import { formatLocalDateISO, getWeekDatesISO } from '../utils/date.utils';
+import { ApiService } from './api.service';
+import { FirebaseService, StaleSummaryError } from './firebase.service';
+
+/**
+ * Run a summary update, starting over when the sessions it was calculated
+ * from changed before it could be saved
+ */
+async function retryWhenStale(update: () => Promise<void>): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await update();
+    } catch (error) {
+      if (!(error instanceof StaleSummaryError) || attempt >= SUMMARY_UPDATE_MAX_ATTEMPTS) throw error;
+      console.warn(`${error.message}, recalculating (attempt ${attempt + 1})`);
+    }
+  }
+}
+
+export class SummaryService {
+  /**
+   * The schedule, policy and approved overtime to calculate a user's session
+   * with, from the user's saved schedule and overtime policy
+   * Punch out, admin edits, the calculation trace and the reconciler all use
+   * this, so a session gets the same metrics whoever calculates it.
+   */
+  static async getSessionCalculationInputs(
+    userId: string,
+    punchIn: Date,
+    punchOut: Date,
+    date: string
+  ): Promise<SessionCalculationInputs> {
+    const [user, holidays, approval] = await Promise.all([
+      FirebaseService.getUser(userId),
+      FirebaseService.getHolidaysByDateRange(formatLocalDateISO(punchIn), formatLocalDateISO(punchOut)),
+      FirebaseService.getOvertimeApproval(userId, date)
+    ]);
+    const overtime: OvertimePolicy = { ...DEFAULT_CALCULATION_POLICY.overtime, ...user?.overtimePolicy };
+
+    return {
+      schedule: user?.schedule || DEFAULT_SCHEDULE,
+      policy: { ...DEFAULT_CALCULATION_POLICY, holidays, overtime },
+      approvedMinutes: approval?.approvedMinutes ?? 0
+    };
+  }
+
+  /**
+   * Calculate a session just punched out of, save its metrics and rebuild the
+   * daily summaries it touches; returns the metrics
+   * With Firestore the API does all of this as the signed-in employee, since
+   * only the server and admins may write metrics and summaries. The in-memory
+   * adapters keep their data in the browser, so it is calculated here. If the
+   * calculation fails the session stays pending, with the error recorded, for
+   * the reconciler.
+   */
+  static async calculateSession(sessionId: string): Promise<TimeMetrics> {
+    const idToken = await FirebaseService.getIdToken();
+    if (idToken) {
+      return ApiService.calculateSession(sessionId, idToken);
+    }
+
+    const session = await FirebaseService.getAttendanceById(sessionId);
+    if (!session?.punchOut) throw new Error(`Session ${sessionId} is not closed`);
+
+    let metrics: TimeMetrics;
+    try {
+      const { schedule, policy, approvedMinutes } = await this.getSessionCalculationInputs(
+        session.userId,
+        session.punchIn,
+        session.punchOut,
+        session.date
+      );
+      metrics = await ApiService.calculateTimeMetrics(session.punchIn, session.punchOut, schedule, policy, approvedMinutes);
+    } catch (error) {
+      await FirebaseService.recordCalculationFailure(sessionId, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
+    // Overnight shifts belong to the date the shift started
+    const businessDate = metrics.businessDate || session.date;
+    const duration = Math.floor((session.punchOut.getTime() - session.punchIn.getTime()) / 1000);
+    await FirebaseService.saveSessionMetrics(sessionId, businessDate, duration, metrics);
+
+    for (const date of new Set([session.date, businessDate])) {
+      await this.recalculateDailySummary(session.userId, date);
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Recalculate a user's daily summary from all completed sessions on a date
+   * Deletes the summary when no sessions remain. Uses the user's saved
+   * schedule and any overtime approved for the date.
+   * In weekly overtime mode the rest of the workweek is reclassified too.
+   * If another punch or edit changes the day's sessions mid-update, the
+   * summary is calculated again from the new sessions.
+   */
+  static async recalculateDailySummary(userId: string, date: string): Promise<void> {
+    try {
+      const user = await FirebaseService.getUser(userId);
+      const overtime: OvertimePolicy = { ...DEFAULT_CALCULATION_POLICY.overtime, ...user?.overtimePolicy };
+
+      await retryWhenStale(async () => {
+        const sessions = await FirebaseService.getCompletedSessions(userId, date);
+
+        if (sessions.length === 0) {
+          await FirebaseService.deleteDailySummary(userId, date);
+          return;
+        }
+
+        const userSchedule = user?.schedule || DEFAULT_SCHEDULE;
+
+        // Holidays the day's sessions may touch
+        const firstPunchIn = new Date(Math.min(...sessions.map(session => session.punchIn.getTime())));
+        const lastPunchOut = new Date(Math.max(...sessions.map(session => session.punchOut.getTime())));
+        const holidays = await FirebaseService.getHolidaysByDateRange(
+          formatLocalDateISO(firstPunchIn),
+          formatLocalDateISO(lastPunchOut)
+        );
+
+        const approval = await FirebaseService.getOvertimeApproval(userId, date);
+
+        const dailyMetrics = await ApiService.calculateDailyMetrics(
+          sessions,
+          userSchedule,
+          { ...DEFAULT_CALCULATION_POLICY, holidays, overtime },
+          approval?.approvedMinutes ?? 0
+        );
+
+        await FirebaseService.updateDailySummary(userId, date, dailyMetrics, sessions);
+      });
+
+      if (overtime.mode === 'weekly') {
+        await this.recalculateWeeklyOvertime(userId, date, overtime.weeklyThresholdMinutes);
+      }
+    } catch (error) {
+      console.error('Error recalculating daily summary:', error);
+      throw new Error('Failed to recalculate daily summary');
+    }
+  }
+
+  /**
+   * Reclassify regular hours as overtime across the user's workweek
+   * Once the week's running total passes the threshold, the rest of the
+   * week's hours are overtime, wherever they fall in the shift.
+   */
+  static async recalculateWeeklyOvertime(userId: string, date: string, thresholdMinutes?: number): Promise<void> {
+    try {
+      await retryWhenStale(async () => {
+        const summaries = await Promise.all(
+          getWeekDatesISO(date).map(weekDate => FirebaseService.getDailySummary(userId, weekDate))
+        );
+        const days = summaries
+          .filter((summary): summary is DailySummary => summary !== null)
+          .map(summary => ({
+            date: summary.date,
+            totalWorkedMinutes: summary.totalWorkedMinutes,
+            totalWorkedHours: summary.totalWorkedHours
+          }));
+
+        if (days.length === 0) return;
+
+        const week = await ApiService.calculateWeeklyOvertime(days, thresholdMinutes);
+        await FirebaseService.applyWeeklyOvertime(userId, week);
+      });
+    } catch (error) {
+      console.error('Error recalculating weekly overtime:', error);
+      throw new Error('Failed to recalculate weekly overtime');
+    }
+  }
+
+  /**
+   * Rebuild daily summaries purely from completed attendance records, for one
+   * user, an inclusive date range, or both
+   * The range is widened to whole Sunday-Saturday weeks so weekly overtime is
+   * reclassified correctly. With Firestore the API reads and saves everything
+   * itself as the signed-in admin. The in-memory adapters keep their data in
+   * the browser, so it is rebuilt here, and a day whose sessions change while
+   * the rebuild runs is recalculated on its own. Returns what changed.
+   */
+  static async rebuildDailySummaries(
+    userId?: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<SummaryRebuildReport> {
+    try {
+      const rangeStart = startDate && getWeekDatesISO(startDate)[0];
+      const rangeEnd = endDate && getWeekDatesISO(endDate)[6];
+
+      const idToken = await FirebaseService.getIdToken();
+      if (idToken) {
+        return await ApiService.rebuildDailySummaries(
+          { userId, startDate: rangeStart, endDate: rangeEnd },
+          DEFAULT_SCHEDULE,
+          DEFAULT_CALCULATION_POLICY,
+          idToken
+        );
+      }
+
+      const [sessions, existingSummaries, employees, approvals] = await Promise.all([
+        FirebaseService.getCompletedSessionsInRange(userId, rangeStart, rangeEnd),
+        FirebaseService.getDailySummaries(userId, rangeStart, rangeEnd),
+        FirebaseService.getEmployees(),
+        FirebaseService.getOvertimeApprovals(userId, rangeStart, rangeEnd)
+      ]);
+
+      // Holidays the sessions may touch
+      const holidays = sessions.length > 0
+        ? await FirebaseService.getHolidaysByDateRange(
+          formatLocalDateISO(new Date(Math.min(...sessions.map(session => new Date(session.punchIn).getTime())))),
+          formatLocalDateISO(new Date(Math.max(...sessions.map(session => new Date(session.punchOut).getTime()))))
+        )
+        : [];
+
+      const rebuild = rebuildDailySummaries(
+        { sessions, summaries: existingSummaries, employees, holidays, approvals },
+        DEFAULT_SCHEDULE,
+        DEFAULT_CALCULATION_POLICY
+      );
+
+      for (const summary of rebuild.summaries) {
+        try {
+          await FirebaseService.saveDailySummary(summary);
+        } catch (error) {
+          if (!(error instanceof StaleSummaryError)) throw error;
+          await this.recalculateDailySummary(summary.userId, summary.date);
+        }
+      }
+
+      for (const { userId: summaryUserId, date } of rebuild.deletions) {
+        try {
+          await FirebaseService.deleteDailySummary(summaryUserId, date);
+        } catch (error) {
+          if (!(error instanceof StaleSummaryError)) throw error;
+          await this.recalculateDailySummary(summaryUserId, date);
+        }
+      }
+
+      return rebuild.report;
+    } catch (error) {
+      console.error('Error rebuilding daily summaries:', error);
+      throw new Error('Failed to rebuild daily summaries');
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Calculation Defaults
+ *
+ * The schedule and company policy sessions are calculated with when a user has
+ * none of their own. Built into functions/lib with the time calculator, so the
+ * app and the servers calculate with the same defaults.
+ */
+
+import type { CalculationPolicy, Schedule } from '../types';
+
+// Every day is a workday with no breaks or grace; set schedule.weekly,
+// schedule.breaks and schedule.grace on a user to opt in
+export const DEFAULT_SCHEDULE: Schedule = {
+  start: '09:00',
+  end: '18:00',
+  timezone: 'Asia/Manila'
+};
+
+export const NIGHT_DIFF_START_HOUR = 22; // 10:00 PM
+export const NIGHT_DIFF_END_HOUR = 6; // 6:00 AM
+
+// Weekly overtime mode: work past 40 hours in a Sunday-Saturday workweek is overtime
+export const DEFAULT_WEEKLY_OVERTIME_THRESHOLD_MINUTES = 2400;
+
+// Punches are not rounded and every minute of overtime counts; add rounding
+// here, or overtimePolicy.minimumMinutes on a user, to opt in
+export const DEFAULT_CALCULATION_POLICY: CalculationPolicy = {
+  nightDifferential: {
+    startHour: NIGHT_DIFF_START_HOUR,
+    endHour: NIGHT_DIFF_END_HOUR
+  },
+  overtime: {
+    minimumMinutes: 0,
+    requireApproval: false,
+    mode: 'daily',
+    weeklyThresholdMinutes: DEFAULT_WEEKLY_OVERTIME_THRESHOLD_MINUTES
+  }
+};
@@ -0,0 +1,606 @@
+/**
+ * Time Calculator Tests
+ * Behaviour of the shared calculator. Times are Manila local (UTC+8, no DST);
+ * 2025-10-06 is a Monday.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { DailySummary, Schedule } from '../types';
+import {
+  batchCalculateTimeMetrics,
+  calculateDailyMetrics,
+  calculateGrossPay,
+  calculateTimeMetrics,
+  calculateWeeklyOvertime,
+  classifyScheduleDays,
+  explainTimeMetrics,
+  rebuildDailySummaries
+} from './timeCalculator';
+
+const DAY_SHIFT: Schedule = { start: '09:00', end: '18:00', timezone: 'Asia/Manila' };
+const NIGHT_SHIFT: Schedule = { start: '22:00', end: '06:00', timezone: 'Asia/Manila' };
+
+// A punch pair in Manila local time, e.g. session('2025-10-06 09:00', '2025-10-06 18:00')
+function session(punchIn: string, punchOut: string) {
+  const toISO = (local: string) => `${local.replace(' ', 'T')}:00+08:00`;
+  return { punchIn: toISO(punchIn), punchOut: toISO(punchOut) };
+}
+
+describe('calculateTimeMetrics', () => {
+  it('splits a late day into regular time and post-shift overtime', () => {
+    const metrics = calculateTimeMetrics(session('2025-10-06 09:15', '2025-10-06 19:30'), DAY_SHIFT);
+
+    expect(metrics.totalWorkedMinutes).toBe(615);
+    expect(metrics.regularMinutes).toBe(525);
+    expect(metrics.overtimeMinutes).toBe(90);
+    expect(metrics.postShiftOvertimeMinutes).toBe(90);
+    expect(metrics.lateMinutes).toBe(15);
+    expect(metrics.undertimeMinutes).toBe(0);
+    expect(metrics.regularHours).toBe('8.75');
+    expect(metrics.businessDate).toBe('2025-10-06');
+  });
+
+  it('counts leaving early as undertime', () => {
+    const metrics = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 16:30'), DAY_SHIFT);
+
+    expect(metrics.regularMinutes).toBe(450);
+    expect(metrics.undertimeMinutes).toBe(90);
+    expect(metrics.overtimeMinutes).toBe(0);
+  });
+
+  it('rejects a session without a punch-out', () => {
+    expect(() =>
+      calculateTimeMetrics({ punchIn: '2025-10-06T09:00:00+08:00', punchOut: '' }, DAY_SHIFT)
+    ).toThrow('Both punchIn and punchOut are required');
+  });
+
+  describe('overnight shifts', () => {
+    it('files a shift that crosses midnight under its start date', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 22:00', '2025-10-07 06:00'), NIGHT_SHIFT);
+
+      expect(metrics.isOvernightShift).toBe(true);
+      expect(metrics.businessDate).toBe('2025-10-06');
+      expect(metrics.totalWorkedMinutes).toBe(480);
+      expect(metrics.regularMinutes).toBe(480);
+      expect(metrics.lateMinutes).toBe(0);
+      expect(metrics.undertimeMinutes).toBe(0);
+    });
+
+    it('matches a punch-in after midnight to the shift that started the night before', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-07 00:30', '2025-10-07 06:00'), NIGHT_SHIFT);
+
+      expect(metrics.businessDate).toBe('2025-10-06');
+      expect(metrics.lateMinutes).toBe(150);
+      expect(metrics.regularMinutes).toBe(330);
+    });
+  });
+
+  describe('breaks', () => {
+    const withLunch: Schedule = { ...DAY_SHIFT, breaks: [{ type: 'fixed', start: '12:00', end: '13:00' }] };
+
+    it('deducts a fixed unpaid lunch from worked and regular time', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 18:00'), withLunch);
+
+      expect(metrics.breakMinutes).toBe(60);
+      expect(metrics.totalWorkedMinutes).toBe(480);
+      expect(metrics.regularMinutes).toBe(480);
+    });
+
+    it('only deducts the part of a fixed break the employee was clocked in for', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 12:30'), withLunch);
+
+      expect(metrics.breakMinutes).toBe(30);
+      expect(metrics.totalWorkedMinutes).toBe(180);
+    });
+
+    it('deducts an automatic break once the session is long enough', () => {
+      const autoBreak: Schedule = {
+        ...DAY_SHIFT,
+        breaks: [{ type: 'auto', afterWorkedMinutes: 360, durationMinutes: 30 }]
+      };
+
+      const full = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 18:00'), autoBreak);
+      const short = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 14:00'), autoBreak);
+
+      expect(full.breakMinutes).toBe(30);
+      expect(full.totalWorkedMinutes).toBe(510);
+      expect(full.regularMinutes).toBe(510);
+      expect(short.breakMinutes).toBe(0);
+    });
+
+    it('takes no break out of a schedule without breaks', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 18:00'), DAY_SHIFT);
+
+      expect(metrics.breakMinutes).toBe(0);
+      expect(metrics.totalWorkedMinutes).toBe(540);
+    });
+  });
+
+  describe('grace periods', () => {
+    const withGrace: Schedule = { ...DAY_SHIFT, grace: { lateMinutes: 10, undertimeMinutes: 5, mode: 'full' } };
+
+    it('ignores lateness and undertime inside the grace window', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:08', '2025-10-06 17:57'), withGrace);
+
+      expect(metrics.lateMinutes).toBe(0);
+      expect(metrics.undertimeMinutes).toBe(0);
+    });
+
+    it('counts every minute past the window in full mode', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:12', '2025-10-06 17:50'), withGrace);
+
+      expect(metrics.lateMinutes).toBe(12);
+      expect(metrics.undertimeMinutes).toBe(10);
+    });
+
+    it('counts only the minutes beyond the window in excess mode', () => {
+      const excess: Schedule = { ...DAY_SHIFT, grace: { lateMinutes: 10, undertimeMinutes: 5, mode: 'excess' } };
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:12', '2025-10-06 17:50'), excess);
+
+      expect(metrics.lateMinutes).toBe(2);
+      expect(metrics.undertimeMinutes).toBe(5);
+    });
+  });
+
+  describe('punch rounding', () => {
+    it('rounds each punch to the nearest interval and keeps the raw punches', () => {
+      const policy = {
+        rounding: {
+          punchIn: { interval: 15, direction: 'nearest' as const },
+          punchOut: { interval: 15, direction: 'nearest' as const }
+        }
+      };
+
+      const onTime = calculateTimeMetrics(session('2025-10-06 09:07', '2025-10-06 18:07'), DAY_SHIFT, policy);
+      const late = calculateTimeMetrics(session('2025-10-06 09:08', '2025-10-06 18:00'), DAY_SHIFT, policy);
+
+      expect(onTime.punchInTime).toBe('2025-10-06T01:00:00.000Z');
+      expect(onTime.rawPunchInTime).toBe('2025-10-06T01:07:00.000Z');
+      expect(onTime.lateMinutes).toBe(0);
+      expect(onTime.overtimeMinutes).toBe(0);
+      expect(late.punchInTime).toBe('2025-10-06T01:15:00.000Z');
+      expect(late.lateMinutes).toBe(15);
+    });
+
+    it('rounds up or down when the rule says so', () => {
+      const policy = {
+        rounding: {
+          punchIn: { interval: 15, direction: 'up' as const },
+          punchOut: { interval: 15, direction: 'down' as const }
+        }
+      };
+      const metrics = calculateTimeMetrics(session('2025-10-06 08:53', '2025-10-06 18:14'), DAY_SHIFT, policy);
+
+      expect(metrics.punchInTime).toBe('2025-10-06T01:00:00.000Z');
+      expect(metrics.punchOutTime).toBe('2025-10-06T10:00:00.000Z');
+      expect(metrics.totalWorkedMinutes).toBe(540);
+    });
+
+    it('leaves punches alone without a rounding policy', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:07', '2025-10-06 18:00'), DAY_SHIFT);
+
+      expect(metrics.punchInTime).toBe(metrics.rawPunchInTime);
+      expect(metrics.lateMinutes).toBe(7);
+    });
+  });
+
+  describe('night differential', () => {
+    it('counts work inside the default 22:00-06:00 window', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 22:00', '2025-10-07 06:00'), NIGHT_SHIFT);
+
+      expect(metrics.nightDiffMinutes).toBe(480);
+      expect(metrics.overtimeNightDiffMinutes).toBe(0);
+    });
+
+    it('reports overtime inside the window as night overtime', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 23:30'), DAY_SHIFT);
+
+      expect(metrics.nightDiffMinutes).toBe(90);
+      expect(metrics.postShiftOvertimeMinutes).toBe(240);
+      expect(metrics.overtimeNightDiffMinutes).toBe(90);
+      expect(metrics.overtimeMinutes).toBe(330);
+    });
+
+    it('uses the window from the policy', () => {
+      const policy = { nightDifferential: { startHour: 20, endHour: 6 } };
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 23:30'), DAY_SHIFT, policy);
+
+      expect(metrics.nightDiffMinutes).toBe(210);
+      expect(metrics.postShiftOvertimeMinutes).toBe(120);
+      expect(metrics.overtimeNightDiffMinutes).toBe(210);
+    });
+
+    it('leaves unpaid breaks inside the window out', () => {
+      const withNightBreak: Schedule = { ...NIGHT_SHIFT, breaks: [{ type: 'fixed', start: '02:00', end: '03:00' }] };
+      const metrics = calculateTimeMetrics(session('2025-10-06 22:00', '2025-10-07 06:00'), withNightBreak);
+
+      expect(metrics.breakMinutes).toBe(60);
+      expect(metrics.nightDiffMinutes).toBe(420);
+    });
+  });
+
+  describe('holidays', () => {
+    it('reports work on a regular holiday', () => {
+      const policy = { holidays: [{ date: '2025-10-06', name: 'Founding Day', type: 'regular' as const }] };
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 18:00'), DAY_SHIFT, policy);
+
+      expect(metrics.regularHolidayMinutes).toBe(540);
+      expect(metrics.specialHolidayMinutes).toBe(0);
+      expect(metrics.holidayNames).toEqual(['Founding Day']);
+    });
+
+    it('only counts the part of an overnight shift on the holiday', () => {
+      const policy = { holidays: [{ date: '2025-10-07', name: 'Town Fiesta', type: 'special' as const }] };
+      const metrics = calculateTimeMetrics(session('2025-10-06 22:00', '2025-10-07 06:00'), NIGHT_SHIFT, policy);
+
+      expect(metrics.specialHolidayMinutes).toBe(360);
+      expect(metrics.regularHolidayMinutes).toBe(0);
+    });
+  });
+
+  describe('weekly schedules and rest days', () => {
+    const weekdays: Schedule = {
+      ...DAY_SHIFT,
+      weekly: {
+        friday: { start: '08:00', end: '17:00' },
+        saturday: { restDay: true },
+        sunday: { restDay: true }
+      }
+    };
+
+    it('uses the weekday override for the shift', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-10 08:00', '2025-10-10 17:00'), weekdays);
+
+      expect(metrics.lateMinutes).toBe(0);
+      expect(metrics.regularMinutes).toBe(540);
+      expect(metrics.overtimeMinutes).toBe(0);
+    });
+
+    it('reports rest-day work with rest-day overtime past 8 hours', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-11 09:00', '2025-10-11 19:00'), weekdays);
+
+      expect(metrics.isRestDay).toBe(true);
+      expect(metrics.restDayMinutes).toBe(480);
+      expect(metrics.restDayOvertimeMinutes).toBe(120);
+      expect(metrics.overtimeMinutes).toBe(120);
+      expect(metrics.regularMinutes).toBe(0);
+      expect(metrics.lateMinutes).toBe(0);
+      expect(metrics.undertimeMinutes).toBe(0);
+    });
+
+    it('treats every day as a workday without a weekly schedule', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-11 09:00', '2025-10-11 18:00'), DAY_SHIFT);
+
+      expect(metrics.isRestDay).toBe(false);
+      expect(metrics.regularMinutes).toBe(540);
+    });
+  });
+
+  describe('flexible schedules', () => {
+    const flexible: Schedule = {
+      type: 'flexible',
+      start: '07:00',
+      end: '19:00',
+      requiredHours: 8,
+      core: { start: '10:00', end: '15:00' },
+      timezone: 'Asia/Manila'
+    };
+
+    it('accepts any start before the core window once the required hours are met', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 08:00', '2025-10-06 16:00'), flexible);
+
+      expect(metrics.isFlexible).toBe(true);
+      expect(metrics.lateMinutes).toBe(0);
+      expect(metrics.regularMinutes).toBe(480);
+      expect(metrics.undertimeMinutes).toBe(0);
+      expect(metrics.overtimeMinutes).toBe(0);
+    });
+
+    it('measures late from the core start and undertime from the required hours', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 10:30', '2025-10-06 17:00'), flexible);
+
+      expect(metrics.lateMinutes).toBe(30);
+      expect(metrics.undertimeMinutes).toBe(90);
+    });
+
+    it('starts overtime once the required hours are met', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 07:00', '2025-10-06 17:00'), flexible);
+
+      expect(metrics.regularMinutes).toBe(480);
+      expect(metrics.postShiftOvertimeMinutes).toBe(120);
+    });
+
+    it('checks the required hours against the whole day', () => {
+      const daily = calculateDailyMetrics(
+        [session('2025-10-06 08:00', '2025-10-06 12:00'), session('2025-10-06 13:00', '2025-10-06 17:00')],
+        flexible
+      );
+
+      expect(daily.totalWorkedMinutes).toBe(480);
+      expect(daily.undertimeMinutes).toBe(0);
+      expect(daily.overtimeMinutes).toBe(0);
+    });
+  });
+
+  describe('split shifts', () => {
+    const split: Schedule = {
+      ...DAY_SHIFT,
+      segments: [
+        { start: '07:00', end: '11:00' },
+        { start: '16:00', end: '20:00' }
+      ]
+    };
+
+    it('matches a punch-in to the closest segment', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 16:05', '2025-10-06 20:00'), split);
+
+      expect(metrics.isSplitShift).toBe(true);
+      expect(metrics.segmentIndex).toBe(1);
+      expect(metrics.lateMinutes).toBe(5);
+      expect(metrics.regularMinutes).toBe(235);
+    });
+
+    it('counts a segment with no work as undertime for the day', () => {
+      const daily = calculateDailyMetrics([session('2025-10-06 07:00', '2025-10-06 11:00')], split);
+
+      expect(daily.regularMinutes).toBe(240);
+      expect(daily.undertimeMinutes).toBe(240);
+    });
+  });
+
+  describe('overtime categories', () => {
+    it('splits early arrival and staying late into pre- and post-shift overtime', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 08:00', '2025-10-06 19:00'), DAY_SHIFT);
+
+      expect(metrics.preShiftOvertimeMinutes).toBe(60);
+      expect(metrics.postShiftOvertimeMinutes).toBe(60);
+      expect(metrics.overtimeMinutes).toBe(120);
+      expect(metrics.regularMinutes).toBe(540);
+    });
+
+    it('adds the categories up to the overtime total', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 07:00', '2025-10-06 23:00'), DAY_SHIFT);
+      const categories =
+        metrics.preShiftOvertimeMinutes +
+        metrics.postShiftOvertimeMinutes +
+        metrics.restDayOvertimeMinutes +
+        metrics.overtimeNightDiffMinutes;
+
+      expect(categories).toBe(metrics.overtimeMinutes);
+      expect(metrics.overtimeNightDiffMinutes).toBe(60);
+    });
+  });
+
+  describe('minimum and approved overtime', () => {
+    it('counts every minute of overtime by default', () => {
+      const metrics = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 18:20'), DAY_SHIFT);
+
+      expect(metrics.overtimeMinutes).toBe(20);
+    });
+
+    it('drops a stretch shorter than the minimum', () => {
+      const policy = { overtime: { minimumMinutes: 30 } };
+
+      const short = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 18:20'), DAY_SHIFT, policy);
+      const long = calculateTimeMetrics(session('2025-10-06 09:00', '2025-10-06 18:45'), DAY_SHIFT, policy);
+
+      expect(short.overtimeMinutes).toBe(0);
+      expect(long.overtimeMinutes).toBe(45);
+    });
+
+    it('reports overtime beyond the approved minutes as unauthorized', () => {
+      const policy = { overtime: { requireApproval: true } };
+      const metrics = calculateTimeMetrics(
+        { ...session('2025-10-06 09:00', '2025-10-06 20:00'), approvedOvertimeMinutes: 30 },
+        DAY_SHIFT,
+        policy
+      );
+
+      expect(metrics.overtimeMinutes).toBe(30);
+      expect(metrics.unauthorizedOvertimeMinutes).toBe(90);
+    });
+
+    it('shares the approved minutes across the day\'s sessions', () => {
+      const policy = { overtime: { requireApproval: true } };
+      const daily = calculateDailyMetrics(
+        [session('2025-10-06 07:00', '2025-10-06 12:00'), session('2025-10-06 13:00', '2025-10-06 19:00')],
+        DAY_SHIFT,
+        policy,
+        90
+      );
+
+      expect(daily.overtimeMinutes).toBe(90);
+      expect(daily.unauthorizedOvertimeMinutes).toBe(90);
+    });
+  });
+});
+
+describe('calculateDailyMetrics', () => {
+  it('measures late from the first punch-in and undertime from the last punch-out', () => {
+    const daily = calculateDailyMetrics(
+      [session('2025-10-06 09:30', '2025-10-06 12:00'), session('2025-10-06 13:00', '2025-10-06 18:00')],
+      DAY_SHIFT
+    );
+
+    expect(daily.sessionCount).toBe(2);
+    expect(daily.totalWorkedMinutes).toBe(450);
+    expect(daily.gapMinutes).toBe(60);
+    expect(daily.lateMinutes).toBe(30);
+    expect(daily.undertimeMinutes).toBe(0);
+  });
+});
+
+describe('batchCalculateTimeMetrics', () => {
+  it('keeps going past a record that cannot be calculated', () => {
+    const results = batchCalculateTimeMetrics(
+      [session('2025-10-06 09:00', '2025-10-06 18:00'), { punchIn: '2025-10-07T09:00:00+08:00', punchOut: '' }],
+      DAY_SHIFT
+    );
+
+    expect(results[0].metrics?.totalWorkedMinutes).toBe(540);
+    expect(results[0].calculationError).toBeNull();
+    expect(results[1].metrics).toBeNull();
+    expect(results[1].calculationError).toBe('Both punchIn and punchOut are required');
+  });
+});
+
+describe('explainTimeMetrics', () => {
+  it('reports the rounding applied to each punch', () => {
+    const policy = { rounding: { punchIn: { interval: 15, direction: 'nearest' as const } } };
+    const trace = explainTimeMetrics(session('2025-10-06 09:07', '2025-10-06 18:00'), DAY_SHIFT, policy);
+
+    expect(trace.timezone).toBe('Asia/Manila');
+    expect(trace.punches.punchInRounding?.adjustedMinutes).toBe(-7);
+    expect(trace.punches.punchOutRounding).toBeNull();
+    expect(trace.metrics.lateMinutes).toBe(0);
+  });
+});
+
+describe('classifyScheduleDays', () => {
+  it('marks absences, rest days and rest-day work over a week', () => {
+    const schedule: Schedule = { ...DAY_SHIFT, weekly: { saturday: { restDay: true }, sunday: { restDay: true } } };
+    const days = classifyScheduleDays(schedule, '2025-10-06', '2025-10-12', ['2025-10-06', '2025-10-11']);
+
+    expect(days.map(day => day.status)).toEqual([
+      'present',
+      'absent',
+      'absent',
+      'absent',
+      'absent',
+      'rest_day_work',
+      'rest_day'
+    ]);
+    expect(days[0].scheduledMinutes).toBe(540);
+    expect(days[6].scheduledMinutes).toBe(0);
+  });
+
+  it('rejects a range longer than a year', () => {
+    expect(() => classifyScheduleDays(DAY_SHIFT, '2025-01-01', '2026-06-01')).toThrow('Date range cannot exceed one year');
+  });
+});
+
+describe('calculateGrossPay', () => {
+  it('pays overtime at its multiplier of a daily rate', () => {
+    const pay = calculateGrossPay([{ regularMinutes: 480, overtimeMinutes: 60, nightDiffMinutes: 0 }], {
+      type: 'daily',
+      amount: 800
+    });
+
+    expect(pay.hourlyRate).toBe('100.00');
+    expect(pay.currency).toBe('PHP');
+    expect(pay.grossPay).toBe('925.00');
+  });
+
+  it('adds premiums for night differential and holiday hours', () => {
+    const hourly = { type: 'hourly' as const, amount: 100 };
+
+    const night = calculateGrossPay([{ regularMinutes: 480, nightDiffMinutes: 60 }], hourly);
+    const holiday = calculateGrossPay([{ regularMinutes: 480, regularHolidayMinutes: 480 }], hourly);
+
+    expect(night.grossPay).toBe('810.00');
+    expect(holiday.grossPay).toBe('1600.00');
+  });
+
+  it('uses multiplier overrides', () => {
+    const pay = calculateGrossPay(
+      [{ regularMinutes: 480, overtimeMinutes: 60 }],
+      { type: 'hourly', amount: 100 },
+      { overtime: 1.5 }
+    );
+
+    expect(pay.grossPay).toBe('950.00');
+  });
+
+  it('rejects a pay rate without a positive amount', () => {
+    expect(() => calculateGrossPay([], { type: 'hourly', amount: 0 })).toThrow(
+      'payRate must have a type of hourly or daily and a positive amount'
+    );
+  });
+});
+
+describe('calculateWeeklyOvertime', () => {
+  it('turns the minutes past the weekly threshold into overtime', () => {
+    const week = calculateWeeklyOvertime([
+      { date: '2025-10-10', totalWorkedMinutes: 540 },
+      { date: '2025-10-06', totalWorkedMinutes: 540 },
+      { date: '2025-10-07', totalWorkedMinutes: 540 },
+      { date: '2025-10-08', totalWorkedMinutes: 540 },
+      { date: '2025-10-09', totalWorkedMinutes: 540 }
+    ]);
+
+    expect(week.thresholdMinutes).toBe(2400);
+    expect(week.totalWorkedMinutes).toBe(2700);
+    expect(week.regularMinutes).toBe(2400);
+    expect(week.weeklyOvertimeMinutes).toBe(300);
+    expect(week.days.map(day => day.date)[4]).toBe('2025-10-10');
+    expect(week.days[3].weeklyOvertimeMinutes).toBe(0);
+    expect(week.days[4].regularMinutes).toBe(240);
+    expect(week.days[4].weeklyOvertimeMinutes).toBe(300);
+  });
+
+  it('reads hour strings from older summaries', () => {
+    const week = calculateWeeklyOvertime([{ date: '2025-10-06', totalWorkedHours: '9.00' }], 480);
+
+    expect(week.regularMinutes).toBe(480);
+    expect(week.weeklyOvertimeMinutes).toBe(60);
+  });
+
+  it('rejects a negative threshold', () => {
+    expect(() => calculateWeeklyOvertime([], -1)).toThrow('thresholdMinutes must be zero or more');
+  });
+});
+
+describe('rebuildDailySummaries', () => {
+  const emptySummary = (userId: string, date: string): DailySummary => ({
+    userId,
+    date,
+    totalWorkedMinutes: 0,
+    regularMinutes: 0,
+    overtimeMinutes: 0,
+    nightDiffMinutes: 0,
+    preShiftOvertimeMinutes: 0,
+    postShiftOvertimeMinutes: 0,
+    restDayOvertimeMinutes: 0,
+    overtimeNightDiffMinutes: 0,
+    unauthorizedOvertimeMinutes: 0,
+    weeklyOvertimeMinutes: 0,
+    restDayMinutes: 0,
+    regularHolidayMinutes: 0,
+    specialHolidayMinutes: 0,
+    totalLateMinutes: 0,
+    totalUndertimeMinutes: 0
+  });
+
+  it('creates summaries for days with sessions and deletes the ones without', () => {
+    const result = rebuildDailySummaries(
+      {
+        sessions: [{ id: 's1', userId: 'u1', date: '2025-10-06', ...session('2025-10-06 09:00', '2025-10-06 19:00') }],
+        summaries: [emptySummary('u1', '2025-10-07')]
+      },
+      DAY_SHIFT
+    );
+
+    expect(result.summaries).toHaveLength(1);
+    expect(result.summaries[0].date).toBe('2025-10-06');
+    expect(result.summaries[0].regularMinutes).toBe(540);
+    expect(result.summaries[0].overtimeMinutes).toBe(60);
+    expect(result.deletions).toEqual([{ userId: 'u1', date: '2025-10-07' }]);
+    expect(result.report.created).toBe(1);
+    expect(result.report.deleted).toBe(1);
+  });
+
+  it('uses the employee\'s own schedule', () => {
+    const result = rebuildDailySummaries(
+      {
+        sessions: [{ id: 's1', userId: 'u1', date: '2025-10-06', ...session('2025-10-06 22:00', '2025-10-07 06:00') }],
+        summaries: [],
+        employees: [{ userId: 'u1', schedule: NIGHT_SHIFT }]
+      },
+      DAY_SHIFT
+    );
+
+    expect(result.summaries[0].regularMinutes).toBe(480);
+    expect(result.summaries[0].nightDiffMinutes).toBe(480);
+    expect(result.summaries[0].totalLateMinutes).toBe(0);
+  });
+});
@@ -0,0 +1,2114 @@
+/**
+ * Time Calculator Module
+ *
+ * The one implementation of the time calculations, shared by the Express
+ * server (backend/server.js), the Cloud Function (functions/index.cjs) and the
+ * React app. The servers load the CommonJS build in functions/lib, produced by
+ * `npm run build:calculator`.
+ *
+ * This module provides functions to calculate various time metrics for employee attendance:
+ * - Regular working hours
+ * - Overtime hours (pre-shift, post-shift, night and rest-day categories)
+ * - Night differential hours
+ * - Late arrival minutes
+ * - Undertime (early departure) minutes
+ * - Unpaid break deductions
+ * - Punch rounding
+ * - Regular and special holiday hours
+ * - Rest-day work and absences for weekly schedules
+ * - Flexible schedules with core hours
+ * - Split shifts made of several segments per day
+ * - Day-level totals across multiple sessions
+ * - Weekly-threshold overtime (e.g. hours over 40 per workweek)
+ * - Gross pay line items from pay rates and premium multipliers
+ *
+ * @module timeCalculator
+ */
+
+import moment from 'moment-timezone';
+import type {
+  BreakRule,
+  CalculationPolicy,
+  CalculationTrace,
+  DailyMetrics,
+  DailySummary,
+  DayClassification,
+  DayStatus,
+  Holiday,
+  NightDiffWindow,
+  OvertimeApproval,
+  OvertimePolicy,
+  PayBreakdown,
+  PayLineItem,
+  PayMultipliers,
+  PayRate,
+  RoundingRule,
+  RoundingTrace,
+  Schedule,
+  ScheduleSegment,
+  SummaryChange,
+  SummaryRebuildReport,
+  TimelineRule,
+  TimelineSegment,
+  TimeMetrics,
+  User,
+  WeeklyOvertime
+} from '../types';
+
+/**
+ * A punch pair to calculate. Timestamps may be Dates or ISO strings.
+ */
+export interface AttendanceInput {
+  punchIn: Date | string;
+  punchOut: Date | string;
+  approvedOvertimeMinutes?: number; // Used when policy.overtime.requireApproval is set
+}
+
+/**
+ * Metrics for one session, with every field the calculator fills in
+ */
+export type SessionMetrics = Required<Omit<TimeMetrics, 'weeklyOvertimeHours' | 'weeklyOvertimeMinutes'>>;
+
+export interface BatchCalculationResult {
+  metrics: SessionMetrics | null;
+  calculationError: string | null;
+}
+
+/**
+ * A completed session as stored on its attendance record
+ */
+export interface CompletedSession extends AttendanceInput {
+  id: string;
+  userId: string;
+  date: string; // Business date the session counts toward
+}
+
+export interface SummaryRebuildInput {
+  sessions: CompletedSession[];
+  summaries: DailySummary[]; // Existing summaries over the same dates
+  employees?: Array<Pick<User, 'userId' | 'schedule' | 'overtimePolicy'>>;
+  holidays?: Holiday[];
+  approvals?: OvertimeApproval[];
+}
+
+export interface SummaryRebuild {
+  summaries: DailySummary[]; // Summaries to save, each replacing the day's summary
+  deletions: Array<{ userId: string; date: string }>; // Summaries with no sessions left
+  report: SummaryRebuildReport;
+}
+
+type OvertimeCategory = 'preShift' | 'postShift' | 'restDay';
+
+interface OvertimeInterval {
+  start: moment.Moment;
+  end: moment.Moment;
+  category: OvertimeCategory;
+}
+
+interface OvertimeStretch extends OvertimeInterval {
+  minutes: number;
+  authorizedMinutes: number;
+  authorizedEnd: moment.Moment;
+  nightMinutes: number;
+  belowMinimum: boolean;
+}
+
+interface TimeRange {
+  start: moment.Moment;
+  end: moment.Moment;
+}
+
+interface OvertimeRules {
+  minimumMinutes: number;
+  approvedMinutes: number;
+}
+
+interface ShiftWindow {
+  shiftStart: moment.Moment;
+  shiftEnd: moment.Moment;
+  isOvernightShift: boolean;
+  isRestDay: boolean;
+  isSplitShift: boolean;
+  segmentIndex: number;
+}
+
+type FixedBreakRule = Extract<BreakRule, { type: 'fixed' }>;
+
+interface BreakWindow {
+  breakStart: moment.Moment;
+  breakEnd: moment.Moment;
+}
+
+// Intermediate results of a session calculation, reported by explainTimeMetrics
+interface SessionContext {
+  timezone: string;
+  rawPunchInTime: moment.Moment;
+  rawPunchOutTime: moment.Moment;
+  punchInTime: moment.Moment;
+  punchOutTime: moment.Moment;
+  shiftStart: moment.Moment;
+  shiftEnd: moment.Moment;
+  laterSegments: ShiftWindow[];
+  lateReference: moment.Moment;
+  requiredMinutes: number;
+  breakWindows: BreakWindow[];
+  breakMinutes: number;
+  rawLateMinutes: number;
+  rawUndertimeMinutes: number;
+  overtimeRules: OvertimeRules;
+  overtimeStretches: OvertimeStretch[];
+}
+
+// Default night differential window: 10:00 PM (22:00) to 6:00 AM
+const DEFAULT_NIGHT_DIFF_WINDOW: NightDiffWindow = { startHour: 22, endHour: 6 };
+
+// Rest-day work beyond this many minutes is rest-day overtime
+const DEFAULT_REST_DAY_OVERTIME_THRESHOLD = 480;
+
+// In weekly overtime mode, work beyond this many minutes per workweek (40 hours) is overtime
+const DEFAULT_WEEKLY_OVERTIME_THRESHOLD = 2400;
+
+// Default pay multipliers applied to the hourly rate. Combination keys such as
+// overtimeNightDiff cover minutes that earn more than one premium.
+const DEFAULT_PAY_MULTIPLIERS: Required<PayMultipliers> = {
+  regular: 1.0,
+  overtime: 1.25,
+  nightDiff: 1.1,
+  overtimeNightDiff: 1.375,
+  restDay: 1.3,
+  restDayOvertime: 1.69,
+  regularHoliday: 2.0,
+  specialHoliday: 1.3,
+};
+
+// Weekday keys for weekly schedules, indexed by moment's day() (0 = Sunday)
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+/**
+ * Calculate all time metrics for an attendance record
+ *
+ * A schedule whose end is at or before its start (e.g. 22:00-06:00) is an
+ * overnight shift. A flexible schedule's start and end are the band work may
+ * fall in (e.g. 07:00-19:00); late is measured from core.start, and undertime
+ * and overtime against requiredHours of work. Split shift segments replace start
+ * and end, and each punch-in is matched to the closest segment. schedule.weekly
+ * overrides individual weekdays or marks them as rest days.
+ *
+ * Policy options: punch rounding, the night differential window (22:00-06:00 by
+ * default), the holiday calendar, and overtime rules. Rest-day work beyond
+ * overtime.restDayThresholdMinutes is rest-day overtime. A stretch of overtime
+ * shorter than overtime.minimumMinutes does not count. With
+ * overtime.requireApproval, overtime beyond the approved minutes is reported as
+ * unauthorizedOvertimeMinutes instead.
+ *
+ * @param attendance - Punch in and out, plus any pre-approved overtime
+ * @param schedule - User's work schedule
+ * @param policy - Company calculation policy
+ * @returns Calculated time metrics. overtimeMinutes is the sum of four categories that
+ *   never overlap: preShiftOvertimeMinutes, postShiftOvertimeMinutes, restDayOvertimeMinutes and
+ *   overtimeNightDiffMinutes (overtime of any kind inside the night window)
+ */
+export function calculateTimeMetrics(
+  attendance: AttendanceInput,
+  schedule: Schedule,
+  policy: CalculationPolicy = {}
+): SessionMetrics {
+  return calculateSession(attendance, schedule, policy).metrics;
+}
+
+/**
+ * Explain how a session's metrics were calculated
+ * Reports the resolved shift, the rounding and grace periods applied, break and
+ * night differential windows, each overtime stretch, and a timeline splitting
+ * the session into the rule that paid each minute. On flexible schedules and
+ * rest days the day's overtime is settled across all of its sessions (see
+ * calculateDailyMetrics), so a multi-session day can differ from this trace.
+ *
+ * @param attendance - Punch in and out, plus any pre-approved overtime
+ * @param schedule - User's work schedule (see calculateTimeMetrics)
+ * @param policy - Company calculation policy (see calculateTimeMetrics)
+ * @returns The metrics and how they were reached
+ */
+export function explainTimeMetrics(
+  attendance: AttendanceInput,
+  schedule: Schedule,
+  policy: CalculationPolicy = {}
+): CalculationTrace {
+  const { metrics, context } = calculateSession(attendance, schedule, policy);
+  const { grace = {} } = schedule;
+  const {
+    rounding = {},
+    nightDifferential = DEFAULT_NIGHT_DIFF_WINDOW,
+    holidays = [],
+    overtime = {}
+  } = policy;
+  const { timezone, punchInTime, punchOutTime, breakWindows, overtimeRules } = context;
+
+  const fixedBreaks = breakWindows
+    .map(({ breakStart, breakEnd }) => ({
+      start: breakStart.toISOString(),
+      end: breakEnd.toISOString(),
+      minutes: overlapMinutes(punchInTime, punchOutTime, breakStart, breakEnd)
+    }))
+    .filter(window => window.minutes > 0);
+  const fixedBreakMinutes = fixedBreaks.reduce((total, window) => total + window.minutes, 0);
+
+  const nightIntervals = getNightIntervals(punchInTime, punchOutTime, nightDifferential);
+
+  const holidayTotals = holidays.flatMap(holiday => {
+    const { regularHolidayMinutes, specialHolidayMinutes, holidayNames } = calculateHolidayMinutes(
+      punchInTime,
+      punchOutTime,
+      [holiday],
+      breakWindows,
+      timezone
+    );
+    return holidayNames.length
+      ? [{ name: holiday.name, type: holiday.type, minutes: regularHolidayMinutes + specialHolidayMinutes }]
+      : [];
+  });
+
+  return {
+    metrics,
+    timezone,
+    punches: {
+      rawPunchIn: metrics.rawPunchInTime,
+      rawPunchOut: metrics.rawPunchOutTime,
+      punchIn: metrics.punchInTime,
+      punchOut: metrics.punchOutTime,
+      punchInRounding: getRoundingTrace(rounding.punchIn, context.rawPunchInTime, punchInTime),
+      punchOutRounding: getRoundingTrace(rounding.punchOut, context.rawPunchOutTime, punchOutTime)
+    },
+    shift: {
+      start: metrics.shiftStart,
+      end: metrics.shiftEnd,
+      businessDate: metrics.businessDate,
+      isOvernightShift: metrics.isOvernightShift,
+      isRestDay: metrics.isRestDay,
+      isFlexible: metrics.isFlexible,
+      isSplitShift: metrics.isSplitShift,
+      segmentIndex: metrics.segmentIndex,
+      laterSegments: context.laterSegments.map(segment => ({
+        start: segment.shiftStart.toISOString(),
+        end: segment.shiftEnd.toISOString()
+      })),
+      lateReference: context.lateReference.toISOString(),
+      requiredMinutes: metrics.isFlexible ? context.requiredMinutes : null,
+      restDayThresholdMinutes: metrics.isRestDay
+        ? (overtime.restDayThresholdMinutes ?? DEFAULT_REST_DAY_OVERTIME_THRESHOLD)
+        : null
+    },
+    grace: {
+      late: {
+        rawMinutes: context.rawLateMinutes,
+        graceMinutes: grace.lateMinutes || 0,
+        mode: grace.mode || 'full',
+        reportedMinutes: metrics.lateMinutes
+      },
+      undertime: {
+        rawMinutes: context.rawUndertimeMinutes,
+        graceMinutes: grace.undertimeMinutes || 0,
+        mode: grace.mode || 'full',
+        reportedMinutes: metrics.undertimeMinutes
+      }
+    },
+    breaks: {
+      fixed: fixedBreaks,
+      autoDeductionMinutes: context.breakMinutes - fixedBreakMinutes,
+      totalMinutes: context.breakMinutes
+    },
+    nightDifferential: {
+      window: nightDifferential,
+      intervals: nightIntervals.map(({ start, end }) => ({
+        start: start.toISOString(),
+        end: end.toISOString(),
+        minutes: end.diff(start, 'minutes')
+      }))
+    },
+    overtime: {
+      minimumMinutes: overtimeRules.minimumMinutes,
+      approvedMinutes: Number.isFinite(overtimeRules.approvedMinutes) ? overtimeRules.approvedMinutes : null,
+      stretches: context.overtimeStretches.map(stretch => ({
+        start: stretch.start.toISOString(),
+        end: stretch.end.toISOString(),
+        category: stretch.category,
+        minutes: stretch.minutes,
+        authorizedMinutes: stretch.authorizedMinutes,
+        unauthorizedMinutes: stretch.belowMinimum ? 0 : stretch.minutes - stretch.authorizedMinutes,
+        nightMinutes: stretch.nightMinutes,
+        belowMinimum: stretch.belowMinimum
+      }))
+    },
+    holidays: holidayTotals,
+    timeline: buildTimeline(context, metrics.isRestDay, nightIntervals, holidays)
+  };
+}
+
+/**
+ * Calculate a session, keeping the intermediate results explainTimeMetrics reports
+ *
+ * @param attendance - Punch in and out, plus any pre-approved overtime
+ * @param schedule - User's work schedule (see calculateTimeMetrics)
+ * @param policy - Company calculation policy (see calculateTimeMetrics)
+ * @returns The session's metrics and the values they were built from
+ * @private
+ */
+function calculateSession(
+  attendance: AttendanceInput,
+  schedule: Schedule,
+  policy: CalculationPolicy
+): { metrics: SessionMetrics; context: SessionContext } {
+  const { punchIn, punchOut } = attendance;
+  const { timezone = 'UTC', breaks = [], grace = {} } = schedule;
+  const {
+    rounding = {},
+    nightDifferential = DEFAULT_NIGHT_DIFF_WINDOW,
+    holidays = [],
+    overtime = {}
+  } = policy;
+
+  if (!punchIn || !punchOut) {
+    throw new Error('Both punchIn and punchOut are required');
+  }
+
+  // Convert to moment objects in the specified timezone
+  const rawPunchInTime = moment(punchIn).tz(timezone);
+  const rawPunchOutTime = moment(punchOut).tz(timezone);
+
+  // Apply punch rounding; all metrics below use the rounded punches
+  const punchInTime = roundPunch(rawPunchInTime, rounding.punchIn);
+  const punchOutTime = moment.max(punchInTime, roundPunch(rawPunchOutTime, rounding.punchOut));
+
+  // Resolve the shift the punch-in belongs to (overnight shifts end on the next day)
+  const {
+    shiftStart,
+    shiftEnd,
+    isOvernightShift,
+    isRestDay,
+    isSplitShift,
+    segmentIndex,
+    daySegments
+  } = resolveShiftWindow(punchInTime, schedule);
+
+  // On a split shift a session can run on into the day's later segments; time
+  // inside them is regular work, and undertime is measured at the last one reached
+  const laterSegments = daySegments
+    .slice(segmentIndex + 1)
+    .filter(segment => segment.shiftStart.isBefore(punchOutTime));
+  const lastShiftEnd = laterSegments.length ? laterSegments[laterSegments.length - 1].shiftEnd : shiftEnd;
+  const laterSegmentMinutes = laterSegments.reduce(
+    (total, segment) => total + overlapMinutes(punchInTime, punchOutTime, segment.shiftStart, segment.shiftEnd),
+    0
+  );
+
+  // Flexible schedules are measured against the core window and required hours
+  const isFlexible = schedule.type === 'flexible';
+  const requiredMinutes = isFlexible ? getRequiredMinutes(schedule) : 0;
+  const lateReference = isFlexible && schedule.core ? getScheduledTime(shiftStart, schedule.core.start) : shiftStart;
+
+  // Calculate late time (minutes after shift or core start, less the arrival grace period)
+  // Rest-day work has no late or undertime
+  const rawLateMinutes = isRestDay ? 0 : calculateLate(punchInTime, lateReference);
+  const lateMinutes = applyGracePeriod(rawLateMinutes, grace.lateMinutes, grace.mode);
+
+  // Calculate time between punches using moment
+  const elapsedMinutes = punchOutTime.diff(punchInTime, 'minutes');
+
+  // Calculate scheduled shift duration (nothing is scheduled on a rest day)
+  const scheduledMinutes = isRestDay ? 0 : shiftEnd.diff(shiftStart, 'minutes');
+
+  // Calculate regular hours (up to scheduled shift, minus late and undertime)
+  const scheduledRegularMinutes = calculateRegularHours(
+    punchInTime,
+    punchOutTime,
+    shiftStart,
+    shiftEnd,
+    scheduledMinutes
+  );
+
+  // Resolve fixed unpaid break windows for this shift
+  const breakWindows = breaks
+    .filter((rule): rule is FixedBreakRule => rule.type === 'fixed')
+    .map(rule => resolveBreakWindow(rule, shiftStart));
+
+  // Deduct unpaid meal and break time from worked and regular minutes
+  const { breakMinutes, regularBreakMinutes } = calculateBreakDeduction(
+    punchInTime,
+    punchOutTime,
+    shiftStart,
+    shiftEnd,
+    breaks,
+    breakWindows
+  );
+  const totalWorkedMinutes = Math.max(0, elapsedMinutes - breakMinutes);
+
+  // Calculate undertime (minutes before shift end, or short of the required
+  // hours on a flexible schedule, less the departure grace period)
+  let rawUndertimeMinutes = 0;
+  if (!isRestDay) {
+    rawUndertimeMinutes = isFlexible
+      ? Math.max(0, requiredMinutes - totalWorkedMinutes)
+      : calculateUndertime(punchOutTime, lastShiftEnd);
+  }
+  const undertimeMinutes = applyGracePeriod(rawUndertimeMinutes, grace.undertimeMinutes, grace.mode);
+
+  // Find the overtime stretches: before and after the shift, the last minutes of
+  // a flexible session past the required hours, or rest-day work past the threshold
+  let overtimeIntervals: OvertimeInterval[];
+  let restDayOvertimeSpan = 0;
+  if (isRestDay) {
+    const restDayThreshold = overtime.restDayThresholdMinutes ?? DEFAULT_REST_DAY_OVERTIME_THRESHOLD;
+    restDayOvertimeSpan = Math.max(0, totalWorkedMinutes - restDayThreshold);
+    overtimeIntervals = getTrailingOvertimeInterval(punchOutTime, restDayOvertimeSpan, 'restDay');
+  } else if (isFlexible) {
+    const flexibleOvertime = Math.max(0, totalWorkedMinutes - requiredMinutes);
+    overtimeIntervals = getTrailingOvertimeInterval(punchOutTime, flexibleOvertime, 'postShift');
+  } else {
+    overtimeIntervals = getShiftOvertimeIntervals(punchInTime, punchOutTime, shiftStart, shiftEnd, laterSegments);
+  }
+
+  // Calculate overtime by category (night overtime is taken out of the others),
+  // dropping short stretches and holding back anything not approved
+  const overtimeRules = getOvertimeRules(overtime, attendance.approvedOvertimeMinutes);
+  const {
+    preShiftOvertimeMinutes,
+    postShiftOvertimeMinutes,
+    restDayOvertimeMinutes,
+    overtimeNightDiffMinutes,
+    unauthorizedOvertimeMinutes,
+    belowMinimumMinutes,
+    stretches: overtimeStretches
+  } = calculateOvertime(overtimeIntervals, nightDifferential, breakWindows, overtimeRules);
+  const overtimeMinutes =
+    preShiftOvertimeMinutes + postShiftOvertimeMinutes + restDayOvertimeMinutes + overtimeNightDiffMinutes;
+
+  let regularMinutes = Math.max(0, scheduledRegularMinutes - regularBreakMinutes) + laterSegmentMinutes;
+  if (isFlexible) {
+    regularMinutes = isRestDay ? 0 : Math.min(totalWorkedMinutes, requiredMinutes);
+  }
+
+  // Every minute worked on a rest day up to the threshold is rest-day work, as is
+  // a stretch past it too short to count as overtime
+  const restDayMinutes = isRestDay ? totalWorkedMinutes - restDayOvertimeSpan + belowMinimumMinutes : 0;
+
+  // Calculate night differential (work inside the policy's night window, excluding breaks)
+  const nightDiffMinutes = calculateNightDifferential(
+    punchInTime,
+    punchOutTime,
+    nightDifferential,
+    breakWindows
+  );
+
+  // Calculate work that falls on regular and special holidays
+  const { regularHolidayMinutes, specialHolidayMinutes, holidayNames } = calculateHolidayMinutes(
+    punchInTime,
+    punchOutTime,
+    holidays,
+    breakWindows,
+    timezone
+  );
+
+  const metrics: SessionMetrics = {
+    totalWorkedHours: (totalWorkedMinutes / 60).toFixed(2),
+    totalWorkedMinutes,
+    regularHours: (regularMinutes / 60).toFixed(2),
+    regularMinutes,
+    overtimeHours: (overtimeMinutes / 60).toFixed(2),
+    overtimeMinutes,
+    preShiftOvertimeHours: (preShiftOvertimeMinutes / 60).toFixed(2),
+    preShiftOvertimeMinutes,
+    postShiftOvertimeHours: (postShiftOvertimeMinutes / 60).toFixed(2),
+    postShiftOvertimeMinutes,
+    restDayOvertimeHours: (restDayOvertimeMinutes / 60).toFixed(2),
+    restDayOvertimeMinutes,
+    unauthorizedOvertimeHours: (unauthorizedOvertimeMinutes / 60).toFixed(2),
+    unauthorizedOvertimeMinutes,
+    nightDiffHours: (nightDiffMinutes / 60).toFixed(2),
+    nightDiffMinutes,
+    overtimeNightDiffHours: (overtimeNightDiffMinutes / 60).toFixed(2),
+    overtimeNightDiffMinutes,
+    restDayHours: (restDayMinutes / 60).toFixed(2),
+    restDayMinutes,
+    breakMinutes,
+    regularHolidayHours: (regularHolidayMinutes / 60).toFixed(2),
+    regularHolidayMinutes,
+    specialHolidayHours: (specialHolidayMinutes / 60).toFixed(2),
+    specialHolidayMinutes,
+    holidayNames,
+    lateMinutes,
+    undertimeMinutes,
+    punchInTime: punchInTime.toISOString(),
+    punchOutTime: punchOutTime.toISOString(),
+    rawPunchInTime: rawPunchInTime.toISOString(),
+    rawPunchOutTime: rawPunchOutTime.toISOString(),
+    shiftStart: shiftStart.toISOString(),
+    shiftEnd: shiftEnd.toISOString(),
+    businessDate: shiftStart.format('YYYY-MM-DD'),
+    isOvernightShift,
+    isRestDay,
+    isFlexible,
+    isSplitShift,
+    segmentIndex,
+  };
+
+  return {
+    metrics,
+    context: {
+      timezone,
+      rawPunchInTime,
+      rawPunchOutTime,
+      punchInTime,
+      punchOutTime,
+      shiftStart,
+      shiftEnd,
+      laterSegments,
+      lateReference,
+      requiredMinutes,
+      breakWindows,
+      breakMinutes,
+      rawLateMinutes,
+      rawUndertimeMinutes,
+      overtimeRules,
+      overtimeStretches
+    }
+  };
+}
+
+/**
+ * Calculate day-level metrics from all of an employee's sessions on one business date
+ * Worked, regular, overtime, night and holiday minutes are summed across sessions,
+ * but late is measured from the first punch-in and undertime from the last
+ * punch-out, so punching out for lunch is not undertime and punching back in
+ * is not lateness. Gaps between sessions count as break time. Approved overtime
+ * is shared across the day's sessions in order.
+ *
+ * @param sessions - Completed sessions for the day
+ * @param schedule - User's work schedule (see calculateTimeMetrics)
+ * @param policy - Company calculation policy (see calculateTimeMetrics)
+ * @param approvedOvertimeMinutes - Overtime pre-approved for the day
+ * @returns Day totals plus the per-session metrics
+ * @example
+ * const sessions = [
+ *   { punchIn: '2025-10-06T01:00:00Z', punchOut: '2025-10-06T04:00:00Z' },
+ *   { punchIn: '2025-10-06T05:00:00Z', punchOut: '2025-10-06T10:00:00Z' }
+ * ];
+ * const schedule = { start: '09:00', end: '18:00', timezone: 'Asia/Manila' };
+ * const daily = calculateDailyMetrics(sessions, schedule);
+ * // daily.gapMinutes === 60, daily.undertimeMinutes === 0
+ */
+export function calculateDailyMetrics(
+  sessions: AttendanceInput[],
+  schedule: Schedule,
+  policy: CalculationPolicy = {},
+  approvedOvertimeMinutes: number = 0
+): DailyMetrics {
+  if (!Array.isArray(sessions) || sessions.length === 0) {
+    throw new Error('At least one completed session is required');
+  }
+
+  // Each session may use whatever approval the earlier sessions left over
+  let remainingApproval = approvedOvertimeMinutes;
+  const results = [...sessions]
+    .sort((a, b) => moment(a.punchIn).diff(moment(b.punchIn)))
+    .map(session => {
+      const result = calculateTimeMetrics(
+        { ...session, approvedOvertimeMinutes: remainingApproval },
+        schedule,
+        policy
+      );
+      remainingApproval = Math.max(0, remainingApproval - result.overtimeMinutes);
+      return result;
+    });
+
+  const first = results[0];
+  const last = results[results.length - 1];
+
+  // Time off the clock between consecutive sessions is break time
+  let gapMinutes = 0;
+  for (let i = 1; i < results.length; i++) {
+    const gap = moment(results[i].punchInTime).diff(moment(results[i - 1].punchOutTime), 'minutes');
+    gapMinutes += Math.max(0, gap);
+  }
+
+  const sum = (field: NumericMetric) => results.reduce((total, result) => total + result[field], 0);
+  const totalWorkedMinutes = sum('totalWorkedMinutes');
+  let regularMinutes = sum('regularMinutes');
+  let overtimeMinutes = sum('overtimeMinutes');
+  let preShiftOvertimeMinutes = sum('preShiftOvertimeMinutes');
+  let postShiftOvertimeMinutes = sum('postShiftOvertimeMinutes');
+  let restDayOvertimeMinutes = sum('restDayOvertimeMinutes');
+  let unauthorizedOvertimeMinutes = sum('unauthorizedOvertimeMinutes');
+  const nightDiffMinutes = sum('nightDiffMinutes');
+  let overtimeNightDiffMinutes = sum('overtimeNightDiffMinutes');
+  let restDayMinutes = sum('restDayMinutes');
+  const regularHolidayMinutes = sum('regularHolidayMinutes');
+  const specialHolidayMinutes = sum('specialHolidayMinutes');
+  let lateMinutes = first.lateMinutes;
+  let undertimeMinutes = last.undertimeMinutes;
+
+  // Split shifts take late and undertime per segment; a segment with no work at all
+  // counts in full as undertime
+  if (first.isSplitShift && !first.isRestDay) {
+    const { timezone = 'UTC' } = schedule;
+    const businessDay = moment.tz(first.businessDate, 'YYYY-MM-DD', timezone).startOf('day');
+    lateMinutes = 0;
+    undertimeMinutes = 0;
+
+    getDayShiftWindows(schedule, businessDay).forEach((segment, index) => {
+      const segmentResults = results.filter(
+        result => result.businessDate === first.businessDate && result.segmentIndex === index
+      );
+
+      if (segmentResults.length > 0) {
+        lateMinutes += segmentResults[0].lateMinutes;
+        undertimeMinutes += segmentResults[segmentResults.length - 1].undertimeMinutes;
+        return;
+      }
+
+      const isCovered = results.some(result =>
+        overlapMinutes(moment(result.punchInTime), moment(result.punchOutTime), segment.shiftStart, segment.shiftEnd) > 0
+      );
+      if (!isCovered) {
+        undertimeMinutes += segment.shiftEnd.diff(segment.shiftStart, 'minutes');
+      }
+    });
+  }
+
+  // Flexible schedules and rest days measure overtime across the whole day, not
+  // per session; the day's overtime is its last minutes of work
+  const isFlexibleDay = schedule.type === 'flexible' && !first.isRestDay;
+  if (isFlexibleDay || first.isRestDay) {
+    const { timezone = 'UTC', grace = {} } = schedule;
+    const { nightDifferential = DEFAULT_NIGHT_DIFF_WINDOW, overtime = {} } = policy;
+    const threshold = isFlexibleDay
+      ? getRequiredMinutes(schedule)
+      : (overtime.restDayThresholdMinutes ?? DEFAULT_REST_DAY_OVERTIME_THRESHOLD);
+    const dayOvertime = Math.max(0, totalWorkedMinutes - threshold);
+
+    const categories = calculateOvertime(
+      getTrailingOvertimeInterval(moment(last.punchOutTime).tz(timezone), dayOvertime, isFlexibleDay ? 'postShift' : 'restDay'),
+      nightDifferential,
+      [],
+      getOvertimeRules(overtime, approvedOvertimeMinutes)
+    );
+    preShiftOvertimeMinutes = 0;
+    postShiftOvertimeMinutes = categories.postShiftOvertimeMinutes;
+    restDayOvertimeMinutes = categories.restDayOvertimeMinutes;
+    overtimeNightDiffMinutes = categories.overtimeNightDiffMinutes;
+    unauthorizedOvertimeMinutes = categories.unauthorizedOvertimeMinutes;
+    overtimeMinutes = postShiftOvertimeMinutes + restDayOvertimeMinutes + overtimeNightDiffMinutes;
+
+    if (isFlexibleDay) {
+      regularMinutes = Math.min(totalWorkedMinutes, threshold);
+      undertimeMinutes = applyGracePeriod(
+        Math.max(0, threshold - totalWorkedMinutes),
+        grace.undertimeMinutes,
+        grace.mode
+      );
+    } else {
+      restDayMinutes = totalWorkedMinutes - dayOvertime + categories.belowMinimumMinutes;
+    }
+  }
+
+  return {
+    totalWorkedHours: (totalWorkedMinutes / 60).toFixed(2),
+    totalWorkedMinutes,
+    regularHours: (regularMinutes / 60).toFixed(2),
+    regularMinutes,
+    overtimeHours: (overtimeMinutes / 60).toFixed(2),
+    overtimeMinutes,
+    preShiftOvertimeHours: (preShiftOvertimeMinutes / 60).toFixed(2),
+    preShiftOvertimeMinutes,
+    postShiftOvertimeHours: (postShiftOvertimeMinutes / 60).toFixed(2),
+    postShiftOvertimeMinutes,
+    restDayOvertimeHours: (restDayOvertimeMinutes / 60).toFixed(2),
+    restDayOvertimeMinutes,
+    unauthorizedOvertimeHours: (unauthorizedOvertimeMinutes / 60).toFixed(2),
+    unauthorizedOvertimeMinutes,
+    nightDiffHours: (nightDiffMinutes / 60).toFixed(2),
+    nightDiffMinutes,
+    overtimeNightDiffHours: (overtimeNightDiffMinutes / 60).toFixed(2),
+    overtimeNightDiffMinutes,
+    restDayHours: (restDayMinutes / 60).toFixed(2),
+    restDayMinutes,
+    breakMinutes: sum('breakMinutes') + gapMinutes,
+    gapMinutes,
+    regularHolidayHours: (regularHolidayMinutes / 60).toFixed(2),
+    regularHolidayMinutes,
+    specialHolidayHours: (specialHolidayMinutes / 60).toFixed(2),
+    specialHolidayMinutes,
+    holidayNames: [...new Set(results.flatMap(result => result.holidayNames))],
+    lateMinutes,
+    undertimeMinutes,
+    sessionCount: results.length,
+    firstPunchIn: first.punchInTime,
+    lastPunchOut: last.punchOutTime,
+    businessDate: first.businessDate,
+    isRestDay: first.isRestDay,
+    isSplitShift: first.isSplitShift,
+    sessions: results,
+  };
+}
+
+// Numeric session metrics that can be summed across a day
+type NumericMetric = {
+  [K in keyof SessionMetrics]: SessionMetrics[K] extends number ? K : never;
+}[keyof SessionMetrics];
+
+/**
+ * Round a punch according to a rounding rule
+ * Rounding is anchored to the start of the local hour, so the interval should
+ * divide 60 (e.g. 5, 6, 10, 15 or 30 minutes).
+ *
+ * @param punch - Raw punch time
+ * @param rule - Rounding interval in minutes and direction ('nearest' by default)
+ * @returns Rounded punch time (the raw punch if no rule applies)
+ * @private
+ */
+function roundPunch(punch: moment.Moment, rule?: RoundingRule): moment.Moment {
+  if (!rule || !rule.interval) {
+    return punch.clone();
+  }
+
+  const hourStart = punch.clone().startOf('hour');
+  const intervalMs = rule.interval * 60 * 1000;
+  const steps = punch.diff(hourStart) / intervalMs;
+
+  let roundedSteps;
+  switch (rule.direction) {
+    case 'up':
+      roundedSteps = Math.ceil(steps);
+      break;
+    case 'down':
+      roundedSteps = Math.floor(steps);
+      break;
+    default:
+      roundedSteps = Math.round(steps);
+  }
+
+  return hourStart.add(roundedSteps * intervalMs, 'milliseconds');
+}
+
+/**
+ * Describe the rounding applied to a punch
+ *
+ * @param rule - Rounding rule (see roundPunch)
+ * @param raw - Raw punch time
+ * @param rounded - Punch time used for the metrics
+ * @returns The rule and how far it moved the punch, or null when no rule applies
+ * @private
+ */
+function getRoundingTrace(rule: RoundingRule | undefined, raw: moment.Moment, rounded: moment.Moment): RoundingTrace | null {
+  if (!rule || !rule.interval) {
+    return null;
+  }
+
+  return {
+    interval: rule.interval,
+    direction: rule.direction || 'nearest',
+    adjustedMinutes: Math.round(rounded.diff(raw) / 600) / 100
+  };
+}
+
+/**
+ * Resolve the scheduled shift window that a punch-in belongs to
+ * A schedule whose end is at or before its start (e.g. 22:00-06:00) is an
+ * overnight shift and ends on the day after it starts. Shifts starting on the
+ * punch-in date, the day before and the day after are compared, and the one
+ * closest to the punch-in wins. A 01:00 punch-in therefore belongs to the
+ * previous night's 22:00 shift, and a 23:50 punch-in for a 00:30 shift belongs
+ * to the next day's shift. The business date is the date the shift starts.
+ *
+ * A rest day takes part as a window covering its whole calendar day. When a
+ * punch-in falls inside both a rest day and an overnight shift running into it,
+ * the shift wins. On a split shift every segment is a candidate, so each punch
+ * is matched to its own segment.
+ *
+ * @param punchIn - Actual punch in time
+ * @param schedule - User's work schedule (see calculateTimeMetrics)
+ * @returns The matched window, plus every segment window of its day
+ * @private
+ */
+function resolveShiftWindow(
+  punchIn: moment.Moment,
+  schedule: Schedule
+): ShiftWindow & { daySegments: ShiftWindow[] } {
+  let closest: (ShiftWindow & { distance: number; daySegments: ShiftWindow[] }) | null = null;
+
+  // Same-day shift first so ties favour the shift on the punch-in date
+  for (const dayOffset of [0, -1, 1]) {
+    const day = punchIn.clone().startOf('day').add(dayOffset, 'days');
+    const windows = getDayShiftWindows(schedule, day);
+
+    for (const candidate of windows) {
+      const distance = distanceFromWindow(punchIn, candidate.shiftStart, candidate.shiftEnd);
+      const isCloser = !closest || distance < closest.distance;
+      const isWorkdayTie = closest && distance === closest.distance && closest.isRestDay && !candidate.isRestDay;
+      if (isCloser || isWorkdayTie) {
+        closest = { ...candidate, distance, daySegments: windows };
+      }
+    }
+  }
+
+  // Every day yields at least one window, so a match is always found
+  const match = closest!;
+  return {
+    shiftStart: match.shiftStart,
+    shiftEnd: match.shiftEnd,
+    isOvernightShift: match.isOvernightShift,
+    isRestDay: match.isRestDay,
+    isSplitShift: match.isSplitShift,
+    segmentIndex: match.segmentIndex,
+    daySegments: match.daySegments
+  };
+}
+
+/**
+ * Get the shift segments that apply on a given day
+ *
+ * @param schedule - User's work schedule (see calculateTimeMetrics)
+ * @param day - Any moment on the day
+ * @returns Segments in order (one unless the day is a split shift), or an empty
+ *   array on a rest day
+ * @private
+ */
+function getDaySegments(schedule: Schedule, day: moment.Moment): ScheduleSegment[] {
+  const override = schedule.weekly?.[WEEKDAYS[day.day()]];
+
+  if (override && 'restDay' in override) {
+    return [];
+  }
+
+  const daySchedule = override || schedule;
+  if (daySchedule.segments?.length) {
+    return daySchedule.segments;
+  }
+  return [{ start: daySchedule.start, end: daySchedule.end }];
+}
+
+/**
+ * Build the shift windows that start on a given day
+ * On a rest day there is one window covering the whole calendar day. A split
+ * shift segment that starts earlier in the day than the first segment belongs
+ * to the next day, so an 18:00-22:00 + 02:00-06:00 split runs past midnight.
+ *
+ * @param schedule - User's work schedule (see calculateTimeMetrics)
+ * @param day - Start of the local day
+ * @returns The day's shift windows in order
+ * @private
+ */
+function getDayShiftWindows(schedule: Schedule, day: moment.Moment): ShiftWindow[] {
+  const segments = getDaySegments(schedule, day);
+
+  if (segments.length === 0) {
+    return [{
+      shiftStart: day.clone(),
+      shiftEnd: day.clone().add(1, 'day'),
+      isOvernightShift: false,
+      isRestDay: true,
+      isSplitShift: false,
+      segmentIndex: 0
+    }];
+  }
+
+  const firstStartMinute = toMinuteOfDay(segments[0].start);
+  return segments.map((segment, segmentIndex) => {
+    const startDay = toMinuteOfDay(segment.start) < firstStartMinute ? day.clone().add(1, 'day') : day;
+    const isOvernightShift = toMinuteOfDay(segment.end) <= toMinuteOfDay(segment.start);
+
+    return {
+      shiftStart: getScheduledTime(startDay, segment.start),
+      shiftEnd: getScheduledTime(
+        isOvernightShift ? startDay.clone().add(1, 'day') : startDay,
+        segment.end
+      ),
+      isOvernightShift,
+      isRestDay: false,
+      isSplitShift: segments.length > 1,
+      segmentIndex
+    };
+  });
+}
+
+/**
+ * Get the minutes of work scheduled on a workday
+ * Flexible schedules require their required hours rather than the whole band;
+ * split shifts add up their segments.
+ *
+ * @param schedule - User's work schedule (see calculateTimeMetrics)
+ * @param windows - The day's shift windows
+ * @returns Scheduled minutes
+ * @private
+ */
+function getScheduledMinutes(schedule: Schedule, windows: ShiftWindow[]): number {
+  if (schedule.type === 'flexible') {
+    return getRequiredMinutes(schedule);
+  }
+  return windows.reduce((total, window) => total + window.shiftEnd.diff(window.shiftStart, 'minutes'), 0);
+}
+
+/**
+ * Get the minutes of work a flexible schedule requires per day
+ *
+ * @param schedule - Flexible work schedule (see calculateTimeMetrics)
+ * @returns Required minutes
+ * @throws If requiredHours or core.start is missing
+ * @private
+ */
+function getRequiredMinutes(schedule: Schedule): number {
+  if (!schedule.requiredHours || !(schedule.requiredHours > 0) || !schedule.core?.start) {
+    throw new Error('Flexible schedules require requiredHours and core.start');
+  }
+  return Math.round(schedule.requiredHours * 60);
+}
+
+/**
+ * Convert an HH:MM time string to minutes since midnight
+ *
+ * @param timeString - Time in HH:MM format (e.g., "22:00")
+ * @returns Minutes since midnight
+ * @private
+ */
+function toMinuteOfDay(timeString: string): number {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Distance in milliseconds between a moment and a time window
+ *
+ * @param time - The moment to measure
+ * @param windowStart - Window start
+ * @param windowEnd - Window end
+ * @returns 0 if the moment is inside the window, otherwise the gap to the nearest edge
+ * @private
+ */
+function distanceFromWindow(time: moment.Moment, windowStart: moment.Moment, windowEnd: moment.Moment): number {
+  if (time.isBefore(windowStart)) {
+    return windowStart.diff(time);
+  }
+  if (time.isAfter(windowEnd)) {
+    return time.diff(windowEnd);
+  }
+  return 0;
+}
+
+/**
+ * Get scheduled time for a specific date
+ * Creates a moment object with the same day (and timezone) but the given time
+ *
+ * @param dateMoment - The date to use
+ * @param timeString - Time in HH:MM format (e.g., "09:00")
+ * @returns Moment object with the scheduled time
+ * @private
+ */
+function getScheduledTime(dateMoment: moment.Moment, timeString: string): moment.Moment {
+  const [hours, minutes] = timeString.split(':').map(Number);
+
+  // Clone the date moment and set the time
+  const scheduledTime = dateMoment.clone()
+    .hour(hours)
+    .minute(minutes)
+    .second(0)
+    .millisecond(0);
+
+  return scheduledTime;
+}
+
+/**
+ * Calculate late minutes (arrival after shift start)
+ *
+ * @param punchIn - Actual punch in time
+ * @param shiftStart - Scheduled shift start time
+ * @returns Minutes late (0 if not late)
+ * @private
+ */
+function calculateLate(punchIn: moment.Moment, shiftStart: moment.Moment): number {
+  if (punchIn.isSameOrBefore(shiftStart)) {
+    return 0; // Not late
+  }
+  return punchIn.diff(shiftStart, 'minutes');
+}
+
+/**
+ * Calculate undertime minutes (leaving before shift end)
+ *
+ * @param punchOut - Actual punch out time
+ * @param shiftEnd - Scheduled shift end time
+ * @returns Minutes of undertime (0 if no undertime)
+ * @private
+ */
+function calculateUndertime(punchOut: moment.Moment, shiftEnd: moment.Moment): number {
+  if (punchOut.isSameOrAfter(shiftEnd)) {
+    return 0; // No undertime
+  }
+  return shiftEnd.diff(punchOut, 'minutes');
+}
+
+/**
+ * Apply a grace period to late or undertime minutes
+ * Minutes within the grace window count as zero. Past the window, mode 'full'
+ * counts every minute and mode 'excess' counts only the minutes beyond it.
+ *
+ * @param minutes - Raw late or undertime minutes
+ * @param graceMinutes - Grace window in minutes
+ * @param mode - 'full' or 'excess'
+ * @returns Minutes to report
+ * @private
+ */
+function applyGracePeriod(minutes: number, graceMinutes: number = 0, mode: 'full' | 'excess' = 'full'): number {
+  if (minutes <= graceMinutes) {
+    return 0; // Within grace
+  }
+  return mode === 'excess' ? minutes - graceMinutes : minutes;
+}
+
+/**
+ * Calculate regular hours (up to scheduled shift)
+ * Regular hours are capped at the scheduled shift duration
+ *
+ * @param punchIn - Actual punch in time
+ * @param punchOut - Actual punch out time
+ * @param shiftStart - Scheduled shift start time
+ * @param shiftEnd - Scheduled shift end time
+ * @param scheduledMinutes - Total scheduled shift duration in minutes
+ * @returns Regular work minutes
+ * @private
+ */
+function calculateRegularHours(
+  punchIn: moment.Moment,
+  punchOut: moment.Moment,
+  shiftStart: moment.Moment,
+  shiftEnd: moment.Moment,
+  scheduledMinutes: number
+): number {
+  // Effective start is the later of punch-in or shift start
+  const effectiveStart = punchIn.isAfter(shiftStart) ? punchIn : shiftStart;
+
+  // Effective end is the earlier of punch-out or shift end
+  const effectiveEnd = punchOut.isBefore(shiftEnd) ? punchOut : shiftEnd;
+
+  // If punch out is before shift start or punch in is after shift end, no regular hours
+  if (effectiveEnd.isSameOrBefore(effectiveStart)) {
+    return 0;
+  }
+
+  const regularMinutes = effectiveEnd.diff(effectiveStart, 'minutes');
+
+  // Regular hours cannot exceed scheduled shift duration
+  return Math.min(regularMinutes, scheduledMinutes);
+}
+
+/**
+ * Find the overtime stretches of a session on a fixed or split shift
+ * Work before the matched shift starts is pre-shift overtime. Work after it ends
+ * is post-shift overtime, except time inside the day's later split-shift
+ * segments, which is regular work.
+ *
+ * @param punchIn - Actual punch in time
+ * @param punchOut - Actual punch out time
+ * @param shiftStart - Scheduled shift start time
+ * @param shiftEnd - Scheduled shift end time
+ * @param laterSegments - Later segments the session runs into, in order
+ * @returns Pre-shift and post-shift stretches
+ * @private
+ */
+function getShiftOvertimeIntervals(
+  punchIn: moment.Moment,
+  punchOut: moment.Moment,
+  shiftStart: moment.Moment,
+  shiftEnd: moment.Moment,
+  laterSegments: ShiftWindow[]
+): OvertimeInterval[] {
+  const intervals: OvertimeInterval[] = [];
+
+  if (punchIn.isBefore(shiftStart)) {
+    intervals.push({ start: punchIn, end: moment.min(punchOut, shiftStart), category: 'preShift' });
+  }
+
+  let cursor = moment.max(punchIn, shiftEnd);
+  laterSegments.forEach(segment => {
+    if (segment.shiftStart.isAfter(cursor)) {
+      intervals.push({ start: cursor, end: moment.min(punchOut, segment.shiftStart), category: 'postShift' });
+    }
+    cursor = moment.max(cursor, segment.shiftEnd);
+  });
+
+  if (cursor.isBefore(punchOut)) {
+    intervals.push({ start: cursor, end: punchOut, category: 'postShift' });
+  }
+
+  return intervals;
+}
+
+/**
+ * Overtime stretch made of the last minutes of a session
+ *
+ * @param punchOut - Actual punch out time
+ * @param minutes - Overtime minutes at the end of the session
+ * @param category - 'postShift' or 'restDay'
+ * @returns The stretch, or an empty array when minutes is 0
+ * @private
+ */
+function getTrailingOvertimeInterval(
+  punchOut: moment.Moment,
+  minutes: number,
+  category: OvertimeCategory
+): OvertimeInterval[] {
+  if (minutes <= 0) {
+    return [];
+  }
+  return [{ start: punchOut.clone().subtract(minutes, 'minutes'), end: punchOut, category }];
+}
+
+/**
+ * Calculate overtime by category
+ * Categories never overlap: overtime inside the night window is night overtime
+ * whatever stretch it falls in, and only the rest counts as pre-shift,
+ * post-shift or rest-day overtime. Unpaid break time inside the night window
+ * is not counted.
+ *
+ * A stretch shorter than the minimum is not overtime at all. When approval is
+ * required, approved minutes are used up in time order and the rest of each
+ * stretch is unauthorized extended time.
+ *
+ * @param intervals - Overtime stretches
+ * @param nightWindow - Night window in local hours (see calculateNightDifferential)
+ * @param breakWindows - Unpaid break windows
+ * @param rules - From getOvertimeRules; approvedMinutes is Infinity when no approval is needed
+ * @returns Minutes per category, plus unauthorized and below-minimum minutes, and
+ *   each stretch in time order
+ * @private
+ */
+function calculateOvertime(
+  intervals: OvertimeInterval[],
+  nightWindow: NightDiffWindow,
+  breakWindows: BreakWindow[],
+  rules: Partial<OvertimeRules> = {}
+) {
+  const { minimumMinutes = 0, approvedMinutes = Infinity } = rules;
+  const totals: Record<OvertimeCategory, number> = { preShift: 0, postShift: 0, restDay: 0 };
+  let overtimeNightDiffMinutes = 0;
+  let unauthorizedOvertimeMinutes = 0;
+  let belowMinimumMinutes = 0;
+  let remainingApproval = approvedMinutes;
+  const stretches: OvertimeStretch[] = [];
+
+  [...intervals]
+    .sort((a, b) => a.start.diff(b.start))
+    .forEach(({ start, end, category }) => {
+      const minutes = end.diff(start, 'minutes');
+      if (minutes < minimumMinutes) {
+        belowMinimumMinutes += minutes;
+        stretches.push({
+          start,
+          end,
+          category,
+          minutes,
+          authorizedMinutes: 0,
+          authorizedEnd: start,
+          nightMinutes: 0,
+          belowMinimum: true
+        });
+        return;
+      }
+
+      const authorizedMinutes = Math.min(minutes, remainingApproval);
+      remainingApproval -= authorizedMinutes;
+      unauthorizedOvertimeMinutes += minutes - authorizedMinutes;
+
+      const authorizedEnd = start.clone().add(authorizedMinutes, 'minutes');
+      const nightMinutes = Math.min(
+        authorizedMinutes,
+        calculateNightDifferential(start, authorizedEnd, nightWindow, breakWindows)
+      );
+
+      totals[category] += authorizedMinutes - nightMinutes;
+      overtimeNightDiffMinutes += nightMinutes;
+      stretches.push({
+        start,
+        end,
+        category,
+        minutes,
+        authorizedMinutes,
+        authorizedEnd,
+        nightMinutes,
+        belowMinimum: false
+      });
+    });
+
+  return {
+    preShiftOvertimeMinutes: totals.preShift,
+    postShiftOvertimeMinutes: totals.postShift,
+    restDayOvertimeMinutes: totals.restDay,
+    overtimeNightDiffMinutes,
+    unauthorizedOvertimeMinutes,
+    belowMinimumMinutes,
+    stretches
+  };
+}
+
+/**
+ * Build the rules calculateOvertime applies from the overtime policy
+ *
+ * @param overtime - policy.overtime (see calculateTimeMetrics)
+ * @param approvedOvertimeMinutes - Overtime approved for the session or day
+ * @returns approvedMinutes is Infinity when the policy does not require approval
+ * @private
+ */
+function getOvertimeRules(overtime: OvertimePolicy, approvedOvertimeMinutes?: number): OvertimeRules {
+  return {
+    minimumMinutes: overtime.minimumMinutes || 0,
+    approvedMinutes: overtime.requireApproval ? (approvedOvertimeMinutes || 0) : Infinity
+  };
+}
+
+/**
+ * Calculate unpaid break minutes for a session
+ * Fixed breaks (e.g. a 12:00-13:00 lunch) deduct the part of the break window
+ * the employee was punched in for. Automatic breaks deduct a flat duration once
+ * the session is long enough, minus any fixed break already deducted so the same
+ * lunch hour is never taken twice.
+ *
+ * @param punchIn - Actual punch in time
+ * @param punchOut - Actual punch out time
+ * @param shiftStart - Scheduled shift start time
+ * @param shiftEnd - Scheduled shift end time
+ * @param breaks - Break rules from the schedule
+ * @param breakWindows - Resolved fixed break windows
+ * @returns Minutes to deduct from worked time, and the part of those minutes that
+ *   falls inside the regular shift
+ * @private
+ */
+function calculateBreakDeduction(
+  punchIn: moment.Moment,
+  punchOut: moment.Moment,
+  shiftStart: moment.Moment,
+  shiftEnd: moment.Moment,
+  breaks: BreakRule[],
+  breakWindows: BreakWindow[]
+): { breakMinutes: number; regularBreakMinutes: number } {
+  const regularStart = moment.max(punchIn, shiftStart);
+  const regularEnd = moment.min(punchOut, shiftEnd);
+
+  let fixedMinutes = 0;
+  let regularFixedMinutes = 0;
+
+  breakWindows.forEach(({ breakStart, breakEnd }) => {
+    fixedMinutes += overlapMinutes(punchIn, punchOut, breakStart, breakEnd);
+    regularFixedMinutes += overlapMinutes(regularStart, regularEnd, breakStart, breakEnd);
+  });
+
+  // Automatic deductions apply to the time left after fixed breaks
+  const workedAfterFixed = punchOut.diff(punchIn, 'minutes') - fixedMinutes;
+  const autoMinutes = breaks
+    .filter((rule): rule is Extract<BreakRule, { type: 'auto' }> =>
+      rule.type === 'auto' && workedAfterFixed >= rule.afterWorkedMinutes)
+    .reduce((max, rule) => Math.max(max, rule.durationMinutes), 0);
+  const autoDeduction = Math.max(0, autoMinutes - fixedMinutes);
+
+  return {
+    breakMinutes: fixedMinutes + autoDeduction,
+    regularBreakMinutes: regularFixedMinutes + autoDeduction
+  };
+}
+
+/**
+ * Resolve a fixed break window relative to its shift
+ * Breaks earlier in the day than the shift start belong to the next day, so a
+ * 02:00-03:00 break on a 22:00-06:00 shift lands after midnight.
+ *
+ * @param rule - Fixed break rule ({ start, end } in HH:MM format)
+ * @param shiftStart - Scheduled shift start time
+ * @returns The break window
+ * @private
+ */
+function resolveBreakWindow(rule: FixedBreakRule, shiftStart: moment.Moment): BreakWindow {
+  const shiftDay = shiftStart.clone().startOf('day');
+  const startsNextDay = toMinuteOfDay(rule.start) < toMinuteOfDay(shiftStart.format('HH:mm'));
+  const breakDay = startsNextDay ? shiftDay.clone().add(1, 'day') : shiftDay;
+  const endsNextDay = toMinuteOfDay(rule.end) <= toMinuteOfDay(rule.start);
+
+  return {
+    breakStart: getScheduledTime(breakDay, rule.start),
+    breakEnd: getScheduledTime(endsNextDay ? breakDay.clone().add(1, 'day') : breakDay, rule.end)
+  };
+}
+
+/**
+ * Minutes of overlap between two time ranges
+ *
+ * @param aStart - First range start
+ * @param aEnd - First range end
+ * @param bStart - Second range start
+ * @param bEnd - Second range end
+ * @returns Overlapping minutes (0 if the ranges do not overlap)
+ * @private
+ */
+function overlapMinutes(aStart: moment.Moment, aEnd: moment.Moment, bStart: moment.Moment, bEnd: moment.Moment): number {
+  return Math.floor(overlapMilliseconds(aStart, aEnd, bStart, bEnd) / 60000);
+}
+
+/**
+ * Milliseconds of overlap between two time ranges
+ * Measured in elapsed time, so ranges spanning a DST transition stay exact.
+ *
+ * @param aStart - First range start
+ * @param aEnd - First range end
+ * @param bStart - Second range start
+ * @param bEnd - Second range end
+ * @returns Overlapping milliseconds (0 if the ranges do not overlap)
+ * @private
+ */
+function overlapMilliseconds(
+  aStart: moment.Moment,
+  aEnd: moment.Moment,
+  bStart: moment.Moment,
+  bEnd: moment.Moment
+): number {
+  const overlapStart = moment.max(aStart, bStart);
+  const overlapEnd = moment.min(aEnd, bEnd);
+
+  if (overlapEnd.isSameOrBefore(overlapStart)) {
+    return 0;
+  }
+  return overlapEnd.diff(overlapStart);
+}
+
+/**
+ * Calculate night differential (work inside the night window, 22:00-06:00 by default)
+ * Intersects the session with each night window it touches, one window per
+ * local day, so a multi-day session costs a handful of iterations rather than
+ * one per minute. Windows are built from local wall-clock hours and measured in
+ * elapsed time, which keeps them correct across DST transitions. Unpaid break
+ * time inside a night window is not counted.
+ *
+ * @param punchIn - Actual punch in time
+ * @param punchOut - Actual punch out time
+ * @param window - Night window in local hours; an endHour at or before startHour wraps past midnight
+ * @param breakWindows - Unpaid break windows
+ * @returns Night differential minutes
+ * @private
+ */
+function calculateNightDifferential(
+  punchIn: moment.Moment,
+  punchOut: moment.Moment,
+  window: NightDiffWindow,
+  breakWindows: BreakWindow[] = []
+): number {
+  let nightMs = 0;
+
+  getNightIntervals(punchIn, punchOut, window).forEach(({ start, end }) => {
+    nightMs += end.diff(start);
+
+    // Remove break time that falls inside this night window
+    breakWindows.forEach(({ breakStart, breakEnd }) => {
+      nightMs -= overlapMilliseconds(start, end, breakStart, breakEnd);
+    });
+  });
+
+  return Math.floor(nightMs / 60000);
+}
+
+/**
+ * The parts of a session inside the night window, one per local night
+ *
+ * @param punchIn - Actual punch in time
+ * @param punchOut - Actual punch out time
+ * @param window - Night window in local hours (see calculateNightDifferential)
+ * @returns Worked night intervals in order
+ * @private
+ */
+function getNightIntervals(punchIn: moment.Moment, punchOut: moment.Moment, window: NightDiffWindow): TimeRange[] {
+  const { startHour, endHour } = window;
+  const wrapsMidnight = endHour <= startHour;
+  const intervals: TimeRange[] = [];
+
+  // Start a day early: the previous night's window can cover the first hours
+  const day = punchIn.clone().startOf('day').subtract(1, 'day');
+
+  while (day.isBefore(punchOut)) {
+    const windowStart = day.clone().hour(startHour);
+    const windowEnd = (wrapsMidnight ? day.clone().add(1, 'day') : day.clone()).hour(endHour);
+
+    if (overlapMilliseconds(punchIn, punchOut, windowStart, windowEnd) > 0) {
+      intervals.push({ start: moment.max(punchIn, windowStart), end: moment.min(punchOut, windowEnd) });
+    }
+
+    day.add(1, 'day');
+  }
+
+  return intervals;
+}
+
+/**
+ * Split a session into stretches paid under a single rule
+ * Every boundary that can change the rule (shift edges, breaks, night windows,
+ * overtime stretches and the end of approved overtime, holidays) starts a new
+ * stretch; neighbours under the same rule are merged back together.
+ *
+ * @param context - Intermediate results of the session calculation
+ * @param isRestDay - Whether the session is rest-day work
+ * @param nightIntervals - Worked night intervals
+ * @param holidays - Holiday calendar entries
+ * @returns The session's timeline in order
+ * @private
+ */
+function buildTimeline(
+  context: SessionContext,
+  isRestDay: boolean,
+  nightIntervals: TimeRange[],
+  holidays: Holiday[]
+): TimelineSegment[] {
+  const { timezone, punchInTime, punchOutTime, breakWindows, overtimeStretches } = context;
+  const breakRanges = breakWindows.map(({ breakStart, breakEnd }) => ({ start: breakStart, end: breakEnd }));
+  const holidayRanges = holidays.map(holiday => {
+    const start = moment.tz(holiday.date, 'YYYY-MM-DD', timezone).startOf('day');
+    return { name: holiday.name, start, end: start.clone().add(1, 'day') };
+  });
+
+  const ranges: TimeRange[] = [
+    { start: context.shiftStart, end: context.shiftEnd },
+    ...context.laterSegments.map(segment => ({ start: segment.shiftStart, end: segment.shiftEnd })),
+    ...breakRanges,
+    ...nightIntervals,
+    ...overtimeStretches.map(stretch => ({ start: stretch.authorizedEnd, end: stretch.end })),
+    ...overtimeStretches,
+    ...holidayRanges
+  ];
+  const sessionStart = punchInTime.valueOf();
+  const sessionEnd = punchOutTime.valueOf();
+  const boundaries = [...new Set(
+    ranges
+      .flatMap(range => [range.start.valueOf(), range.end.valueOf()])
+      .filter(time => time > sessionStart && time < sessionEnd)
+      .concat(sessionStart, sessionEnd)
+  )].sort((a, b) => a - b);
+
+  const contains = (range: TimeRange, time: number) => range.start.valueOf() <= time && time < range.end.valueOf();
+  const timeline: Array<{ start: number; end: number; rule: TimelineRule; nightDiff: boolean; holiday?: string }> = [];
+
+  for (let i = 1; i < boundaries.length; i++) {
+    const start = boundaries[i - 1];
+    const end = boundaries[i];
+    const middle = (start + end) / 2;
+
+    const isBreak = breakRanges.some(range => contains(range, middle));
+    const nightDiff = !isBreak && nightIntervals.some(range => contains(range, middle));
+    const stretch = overtimeStretches.find(range => contains(range, middle));
+
+    let rule: TimelineRule;
+    if (isBreak) {
+      rule = 'break';
+    } else if (stretch?.belowMinimum) {
+      rule = 'belowMinimumOvertime';
+    } else if (stretch && middle >= stretch.authorizedEnd.valueOf()) {
+      rule = 'unauthorizedOvertime';
+    } else if (stretch) {
+      rule = nightDiff ? 'overtimeNightDiff' : `${stretch.category}Overtime`;
+    } else {
+      rule = isRestDay ? 'restDay' : 'regular';
+    }
+    const holiday = isBreak ? undefined : holidayRanges.find(range => contains(range, middle))?.name;
+
+    const previous = timeline[timeline.length - 1];
+    if (previous && previous.rule === rule && previous.nightDiff === nightDiff && previous.holiday === holiday) {
+      previous.end = end;
+    } else {
+      timeline.push({ start, end, rule, nightDiff, holiday });
+    }
+  }
+
+  return timeline.map(({ start, end, holiday, ...segment }) => ({
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    minutes: Math.round((end - start) / 60000),
+    ...segment,
+    ...(holiday ? { holiday } : {})
+  }));
+}
+
+/**
+ * Calculate minutes worked on holidays
+ * Each holiday covers its whole local calendar day, so an overnight shift that
+ * runs into a holiday only counts the minutes after midnight. Unpaid break time
+ * on the holiday is not counted.
+ *
+ * @param punchIn - Actual punch in time
+ * @param punchOut - Actual punch out time
+ * @param holidays - Holiday calendar entries
+ * @param breakWindows - Unpaid break windows
+ * @param timezone - Timezone identifier (e.g., "Asia/Manila")
+ * @returns Minutes on regular and special holidays, and the holidays' names
+ * @private
+ */
+function calculateHolidayMinutes(
+  punchIn: moment.Moment,
+  punchOut: moment.Moment,
+  holidays: Holiday[],
+  breakWindows: BreakWindow[],
+  timezone: string
+): { regularHolidayMinutes: number; specialHolidayMinutes: number; holidayNames: string[] } {
+  const totals = { regular: 0, special: 0 };
+  const holidayNames: string[] = [];
+
+  holidays.forEach(holiday => {
+    const dayStart = moment.tz(holiday.date, 'YYYY-MM-DD', timezone).startOf('day');
+    const dayEnd = dayStart.clone().add(1, 'day');
+
+    let holidayMs = overlapMilliseconds(punchIn, punchOut, dayStart, dayEnd);
+    if (holidayMs === 0 || !(holiday.type in totals)) {
+      return;
+    }
+
+    const workedStart = moment.max(punchIn, dayStart);
+    const workedEnd = moment.min(punchOut, dayEnd);
+    breakWindows.forEach(({ breakStart, breakEnd }) => {
+      holidayMs -= overlapMilliseconds(workedStart, workedEnd, breakStart, breakEnd);
+    });
+
+    totals[holiday.type] += holidayMs;
+    holidayNames.push(holiday.name);
+  });
+
+  return {
+    regularHolidayMinutes: Math.floor(totals.regular / 60000),
+    specialHolidayMinutes: Math.floor(totals.special / 60000),
+    holidayNames
+  };
+}
+
+/**
+ * Classify each day in a date range against a weekly schedule
+ * Scheduled days with no worked punches are absences; rest days are reported
+ * as rest days, or rest-day work when the employee punched in anyway.
+ *
+ * @param schedule - User's work schedule (see calculateTimeMetrics)
+ * @param startDate - First date (YYYY-MM-DD)
+ * @param endDate - Last date (YYYY-MM-DD), at most a year after startDate
+ * @param workedDates - Business dates (YYYY-MM-DD) the employee has punches for
+ * @returns One entry per day; status is 'present', 'absent', 'rest_day' or 'rest_day_work'
+ * @example
+ * const schedule = {
+ *   start: '09:00', end: '18:00', timezone: 'Asia/Manila',
+ *   weekly: { saturday: { restDay: true }, sunday: { restDay: true } }
+ * };
+ * const days = classifyScheduleDays(schedule, '2025-10-06', '2025-10-12', ['2025-10-06']);
+ */
+export function classifyScheduleDays(
+  schedule: Schedule,
+  startDate: string,
+  endDate: string,
+  workedDates: string[] = []
+): DayClassification[] {
+  const { timezone = 'UTC' } = schedule;
+  const worked = new Set(workedDates);
+  const day = moment.tz(startDate, 'YYYY-MM-DD', timezone).startOf('day');
+  const lastDay = moment.tz(endDate, 'YYYY-MM-DD', timezone).startOf('day');
+
+  if (!day.isValid() || !lastDay.isValid()) {
+    throw new Error('startDate and endDate must be YYYY-MM-DD dates');
+  }
+  if (lastDay.diff(day, 'days') > 366) {
+    throw new Error('Date range cannot exceed one year');
+  }
+
+  const days: DayClassification[] = [];
+  while (day.isSameOrBefore(lastDay)) {
+    const date = day.format('YYYY-MM-DD');
+    const windows = getDayShiftWindows(schedule, day);
+    const { isRestDay } = windows[0];
+    const hasPunches = worked.has(date);
+
+    let status: DayStatus;
+    if (isRestDay) {
+      status = hasPunches ? 'rest_day_work' : 'rest_day';
+    } else {
+      status = hasPunches ? 'present' : 'absent';
+    }
+
+    days.push({
+      date,
+      weekday: WEEKDAYS[day.day()],
+      isRestDay,
+      status,
+      scheduledMinutes: isRestDay ? 0 : getScheduledMinutes(schedule, windows)
+    });
+
+    day.add(1, 'day');
+  }
+
+  return days;
+}
+
+/**
+ * Calculate gross pay line items from a set of time metrics
+ * Base hours (regular, each overtime category, rest day) are paid at their
+ * multiplier of the hourly rate. Night overtime is its own category paid at the
+ * overtimeNightDiff multiplier rather than stacking the two. Night differential
+ * outside overtime and holiday minutes are already paid inside the base hours,
+ * so they add a premium line for the difference only.
+ *
+ * @param metricsList - Time metrics (per session, per day or daily summaries);
+ *   minute fields are used when present, otherwise the matching hour strings
+ * @param payRate - Employee pay rate; a daily rate covers hoursPerDay hours (8 by default)
+ *   and the currency defaults to PHP
+ * @param multipliers - Overrides for DEFAULT_PAY_MULTIPLIERS, e.g. { overtime: 1.3 }
+ * @returns Line items and their total
+ * @example
+ * const pay = calculateGrossPay(
+ *   [{ regularMinutes: 480, overtimeMinutes: 60, nightDiffMinutes: 0 }],
+ *   { type: 'daily', amount: 800 }
+ * );
+ * // pay.grossPay === '925.00'
+ */
+export function calculateGrossPay(
+  metricsList: Partial<TimeMetrics>[],
+  payRate: PayRate,
+  multipliers: PayMultipliers = {}
+): PayBreakdown {
+  if (!payRate || !['hourly', 'daily'].includes(payRate.type) || !(payRate.amount > 0)) {
+    throw new Error('payRate must have a type of hourly or daily and a positive amount');
+  }
+
+  const { hoursPerDay = 8, currency = 'PHP' } = payRate;
+  const hourlyRate = payRate.type === 'daily' ? payRate.amount / hoursPerDay : payRate.amount;
+  const rates = { ...DEFAULT_PAY_MULTIPLIERS, ...multipliers };
+
+  const total = (key: string) => metricsList.reduce((sum, metrics) => sum + toMetricMinutes(metrics, key), 0);
+  const overtimeNightDiff = total('overtimeNightDiff');
+
+  // Metrics saved before overtime was split into categories only have a total
+  const categorizedOvertime = metricsList.reduce((sum, metrics) => {
+    const hasCategories = metrics.postShiftOvertimeMinutes !== undefined || metrics.postShiftOvertimeHours !== undefined;
+    return sum + (hasCategories
+      ? toMetricMinutes(metrics, 'preShiftOvertime') + toMetricMinutes(metrics, 'postShiftOvertime') +
+        toMetricMinutes(metrics, 'weeklyOvertime')
+      : Math.max(0, toMetricMinutes(metrics, 'overtime') - toMetricMinutes(metrics, 'overtimeNightDiff')));
+  }, 0);
+
+  const lines: Array<Pick<PayLineItem, 'code' | 'label' | 'minutes' | 'multiplier'>> = [
+    { code: 'regular', label: 'Regular pay', minutes: total('regular'), multiplier: rates.regular },
+    { code: 'overtime', label: 'Overtime', minutes: categorizedOvertime, multiplier: rates.overtime },
+    {
+      code: 'overtimeNightDiff',
+      label: 'Night overtime',
+      minutes: overtimeNightDiff,
+      multiplier: rates.overtimeNightDiff
+    },
+    { code: 'restDay', label: 'Rest day', minutes: total('restDay'), multiplier: rates.restDay },
+    {
+      code: 'restDayOvertime',
+      label: 'Rest day overtime',
+      minutes: total('restDayOvertime'),
+      multiplier: rates.restDayOvertime
+    },
+    {
+      code: 'nightDiff',
+      label: 'Night differential premium',
+      minutes: Math.max(0, total('nightDiff') - overtimeNightDiff),
+      multiplier: rates.nightDiff - 1
+    },
+    {
+      code: 'regularHoliday',
+      label: 'Regular holiday premium',
+      minutes: total('regularHoliday'),
+      multiplier: rates.regularHoliday - 1
+    },
+    {
+      code: 'specialHoliday',
+      label: 'Special holiday premium',
+      minutes: total('specialHoliday'),
+      multiplier: rates.specialHoliday - 1
+    },
+  ];
+
+  const lineItems = lines
+    .filter(line => line.minutes > 0)
+    .map(line => ({
+      ...line,
+      multiplier: parseFloat(line.multiplier.toFixed(4)),
+      hours: (line.minutes / 60).toFixed(2),
+      amount: ((line.minutes / 60) * hourlyRate * line.multiplier).toFixed(2)
+    }));
+
+  const grossPay = lineItems.reduce((sum, line) => sum + parseFloat(line.amount), 0);
+
+  return {
+    hourlyRate: hourlyRate.toFixed(2),
+    currency,
+    lineItems,
+    grossPay: grossPay.toFixed(2)
+  };
+}
+
+/**
+ * Reclassify a workweek's hours for weekly-threshold overtime
+ *
+ * Every minute worked counts toward the week's total, whatever the shift. Days
+ * are taken in date order; a day's minutes stay regular until the running total
+ * passes the threshold, and the rest are weekly overtime. Daily overtime
+ * categories do not apply in this mode.
+ *
+ * @param days - The week's daily metrics or summaries, each with a date and
+ *   totalWorkedMinutes (or totalWorkedHours)
+ * @param thresholdMinutes - Weekly minutes before overtime starts
+ * @returns Week totals and each day's regularMinutes and weeklyOvertimeMinutes
+ */
+export function calculateWeeklyOvertime(
+  days: Array<{ date: string; totalWorkedHours?: string; totalWorkedMinutes?: number }>,
+  thresholdMinutes: number = DEFAULT_WEEKLY_OVERTIME_THRESHOLD
+): WeeklyOvertime {
+  if (!(thresholdMinutes >= 0)) {
+    throw new Error('thresholdMinutes must be zero or more');
+  }
+
+  let weekMinutes = 0;
+  const results = [...days]
+    .sort((a, b) => String(a.date).localeCompare(String(b.date)))
+    .map(day => {
+      const totalWorkedMinutes = toMetricMinutes(day, 'totalWorked');
+      const regularMinutes = Math.min(totalWorkedMinutes, Math.max(0, thresholdMinutes - weekMinutes));
+      const weeklyOvertimeMinutes = totalWorkedMinutes - regularMinutes;
+      weekMinutes += totalWorkedMinutes;
+
+      return {
+        date: day.date,
+        totalWorkedHours: (totalWorkedMinutes / 60).toFixed(2),
+        totalWorkedMinutes,
+        regularHours: (regularMinutes / 60).toFixed(2),
+        regularMinutes,
+        weeklyOvertimeHours: (weeklyOvertimeMinutes / 60).toFixed(2),
+        weeklyOvertimeMinutes
+      };
+    });
+
+  const regularMinutes = results.reduce((sum, day) => sum + day.regularMinutes, 0);
+  const weeklyOvertimeMinutes = weekMinutes - regularMinutes;
+
+  return {
+    thresholdMinutes,
+    totalWorkedHours: (weekMinutes / 60).toFixed(2),
+    totalWorkedMinutes: weekMinutes,
+    regularHours: (regularMinutes / 60).toFixed(2),
+    regularMinutes,
+    weeklyOvertimeHours: (weeklyOvertimeMinutes / 60).toFixed(2),
+    weeklyOvertimeMinutes,
+    days: results
+  };
+}
+
+/**
+ * Read a metric in minutes, falling back to its hour string
+ * Daily summaries saved before they stored minutes only have hours
+ * (e.g. regularHours: "8.00").
+ *
+ * @param metrics - Time metrics or daily summary
+ * @param key - Metric name without the unit (e.g. "regular", "nightDiff")
+ * @returns Minutes (0 when the metric is missing)
+ */
+export function toMetricMinutes(metrics: object, key: string): number {
+  const values = metrics as Record<string, unknown>;
+  const minutes = values[`${key}Minutes`];
+  if (typeof minutes === 'number') {
+    return minutes;
+  }
+
+  const hours = parseFloat(String(values[`${key}Hours`]));
+  return isNaN(hours) ? 0 : Math.round(hours * 60);
+}
+
+/**
+ * Batch calculate time metrics for multiple attendance records
+ * Processes an array of attendance records and returns metrics for each
+ *
+ * @param attendanceRecords - Array of attendance records
+ * @param userSchedule - User's work schedule configuration
+ * @param policy - Company calculation policy (see calculateTimeMetrics)
+ * @returns Array of records with calculated metrics or errors
+ * @example
+ * const records = [
+ *   { punchIn: '2024-01-01T09:00:00Z', punchOut: '2024-01-01T18:00:00Z' }
+ * ];
+ * const schedule = { start: '09:00', end: '18:00', timezone: 'Asia/Manila' };
+ * const results = batchCalculateTimeMetrics(records, schedule);
+ */
+export function batchCalculateTimeMetrics<T extends AttendanceInput>(
+  attendanceRecords: T[],
+  userSchedule: Schedule,
+  policy: CalculationPolicy = {}
+): Array<T & BatchCalculationResult> {
+  return attendanceRecords.map(record => {
+    try {
+      const metrics = calculateTimeMetrics(record, userSchedule, policy);
+      return {
+        ...record,
+        metrics,
+        calculationError: null
+      };
+    } catch (error) {
+      return {
+        ...record,
+        metrics: null,
+        calculationError: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+}
+
+// Summary metrics compared by a rebuild, read in minutes
+const SUMMARY_METRICS = [
+  'totalWorked',
+  'regular',
+  'overtime',
+  'nightDiff',
+  'preShiftOvertime',
+  'postShiftOvertime',
+  'restDayOvertime',
+  'overtimeNightDiff',
+  'unauthorizedOvertime',
+  'weeklyOvertime',
+  'restDay',
+  'regularHoliday',
+  'specialHoliday'
+];
+
+// Summary fields compared by a rebuild as they are stored
+const SUMMARY_FIELDS = ['totalLateMinutes', 'totalUndertimeMinutes', 'breakMinutes', 'sessionCount', 'overtimeMode'] as const;
+
+/**
+ * Identify a session by its punches, so a daily summary can tell when a
+ * session it was calculated from has since been edited
+ *
+ * @param punchIn - Punch in time
+ * @param punchOut - Punch out time
+ * @returns Both punches in epoch milliseconds, e.g. "1759280400000-1759312800000"
+ */
+export function getSessionFingerprint(punchIn: Date | string, punchOut: Date | string): string {
+  return `${moment(punchIn).valueOf()}-${moment(punchOut).valueOf()}`;
+}
+
+/**
+ * Build the daily summary stored for a user's business date
+ * Totals are stored as whole minutes. The sessions the metrics were calculated
+ * from are recorded by attendance ID, so each session counts once however
+ * often the summary is saved.
+ *
+ * @param userId - User the summary belongs to
+ * @param date - Business date (YYYY-MM-DD)
+ * @param metrics - Day-level metrics (see calculateDailyMetrics)
+ * @param sessions - The sessions the metrics were calculated from
+ * @returns The summary, without its timestamps
+ */
+export function buildDailySummary(
+  userId: string,
+  date: string,
+  metrics: DailyMetrics,
+  sessions: Array<AttendanceInput & { id: string }>
+): DailySummary {
+  return {
+    userId,
+    date,
+    totalWorkedMinutes: metrics.totalWorkedMinutes ?? 0,
+    regularMinutes: metrics.regularMinutes ?? 0,
+    overtimeMinutes: metrics.overtimeMinutes ?? 0,
+    nightDiffMinutes: metrics.nightDiffMinutes ?? 0,
+    preShiftOvertimeMinutes: metrics.preShiftOvertimeMinutes ?? 0,
+    postShiftOvertimeMinutes: metrics.postShiftOvertimeMinutes ?? 0,
+    restDayOvertimeMinutes: metrics.restDayOvertimeMinutes ?? 0,
+    overtimeNightDiffMinutes: metrics.overtimeNightDiffMinutes ?? 0,
+    unauthorizedOvertimeMinutes: metrics.unauthorizedOvertimeMinutes ?? 0,
+    weeklyOvertimeMinutes: 0,
+    overtimeMode: 'daily',
+    restDayMinutes: metrics.restDayMinutes ?? 0,
+    regularHolidayMinutes: metrics.regularHolidayMinutes ?? 0,
+    specialHolidayMinutes: metrics.specialHolidayMinutes ?? 0,
+    totalLateMinutes: metrics.lateMinutes,
+    totalUndertimeMinutes: metrics.undertimeMinutes,
+    breakMinutes: metrics.breakMinutes ?? 0,
+    sessionCount: metrics.sessionCount,
+    firstPunchIn: metrics.firstPunchIn,
+    lastPunchOut: metrics.lastPunchOut,
+    sessions: Object.fromEntries(
+      sessions.map(session => [session.id, getSessionFingerprint(session.punchIn, session.punchOut)])
+    )
+  };
+}
+
+/**
+ * Rebuild daily summaries from completed sessions alone
+ *
+ * Every user and business date with sessions gets a freshly calculated summary,
+ * using the user's own schedule and overtime policy when they have one. Existing
+ * summaries for days with no sessions left are removed. Users in weekly overtime
+ * mode have each Sunday-Saturday week reclassified, so pass whole weeks of
+ * sessions and summaries. A day whose sessions cannot be calculated is left as
+ * it is and listed in the report's errors.
+ *
+ * @param input - Completed sessions, the existing summaries over the same dates,
+ *   and the employees, holidays and overtime approvals they depend on
+ * @param schedule - Schedule for users without one of their own
+ * @param policy - Company calculation policy (see calculateTimeMetrics)
+ * @returns Summaries to save and delete, and a report of what changed
+ */
+export function rebuildDailySummaries(
+  input: SummaryRebuildInput,
+  schedule: Schedule,
+  policy: CalculationPolicy = {}
+): SummaryRebuild {
+  const { sessions, summaries, employees = [], holidays = [], approvals = [] } = input;
+  if (!Array.isArray(sessions) || !Array.isArray(summaries)) {
+    throw new Error('sessions and summaries must be arrays');
+  }
+
+  const employeesById = new Map(employees.map(employee => [employee.userId, employee]));
+  const approvedMinutes = new Map(approvals.map(approval => [`${approval.userId}_${approval.date}`, approval.approvedMinutes]));
+  const existingSummaries = new Map(summaries.map(summary => [`${summary.userId}_${summary.date}`, summary]));
+
+  const sessionsByDay = new Map<string, CompletedSession[]>();
+  sessions.forEach(session => {
+    const key = `${session.userId}_${session.date}`;
+    sessionsByDay.set(key, [...(sessionsByDay.get(key) || []), session]);
+  });
+
+  const report: SummaryRebuildReport = {
+    sessionCount: sessions.length,
+    created: 0,
+    updated: 0,
+    deleted: 0,
+    unchanged: 0,
+    changes: [],
+    errors: []
+  };
+
+  const rebuilt: DailySummary[] = [];
+  sessionsByDay.forEach((daySessions, key) => {
+    const { userId, date } = daySessions[0];
+    const employee = employeesById.get(userId);
+    const overtime: OvertimePolicy = { ...policy.overtime, ...employee?.overtimePolicy };
+
+    try {
+      const metrics = calculateDailyMetrics(
+        daySessions,
+        employee?.schedule || schedule,
+        { ...policy, holidays, overtime },
+        approvedMinutes.get(key) ?? 0
+      );
+      rebuilt.push(buildDailySummary(userId, date, metrics, daySessions));
+    } catch (error) {
+      report.errors.push({ userId, date, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  applyWeeklyOvertimeToSummaries(rebuilt, employeesById, policy);
+
+  const toSave = rebuilt.filter(summary => {
+    const existing = existingSummaries.get(`${summary.userId}_${summary.date}`);
+    const fields = diffSummaries(existing, summary);
+
+    if (!existing) {
+      report.created++;
+      report.changes.push({ userId: summary.userId, date: summary.date, action: 'created', fields });
+    } else if (fields.length > 0) {
+      report.updated++;
+      report.changes.push({ userId: summary.userId, date: summary.date, action: 'updated', fields });
+    } else {
+      report.unchanged++;
+    }
+
+    // Unchanged summaries are still saved if they predate minutes and session tracking
+    return !existing || fields.length > 0 || !existing.sessions || existing.totalWorkedMinutes === undefined;
+  });
+
+  const deletions = summaries
+    .filter(summary => !sessionsByDay.has(`${summary.userId}_${summary.date}`))
+    .map(summary => {
+      report.deleted++;
+      report.changes.push({
+        userId: summary.userId,
+        date: summary.date,
+        action: 'deleted',
+        fields: diffSummaries(summary, undefined)
+      });
+      return { userId: summary.userId, date: summary.date };
+    });
+
+  return { summaries: toSave, deletions, report };
+}
+
+/**
+ * Reclassify rebuilt summaries for users in weekly overtime mode, one
+ * Sunday-Saturday week at a time (see calculateWeeklyOvertime)
+ *
+ * @param summaries - Rebuilt summaries, updated in place
+ * @param employeesById - Employees by user ID
+ * @param policy - Company calculation policy
+ * @private
+ */
+function applyWeeklyOvertimeToSummaries(
+  summaries: DailySummary[],
+  employeesById: Map<string | undefined, Pick<User, 'userId' | 'schedule' | 'overtimePolicy'>>,
+  policy: CalculationPolicy
+): void {
+  const weeks = new Map<string, DailySummary[]>();
+  summaries.forEach(summary => {
+    const overtime: OvertimePolicy = { ...policy.overtime, ...employeesById.get(summary.userId)?.overtimePolicy };
+    if (overtime.mode !== 'weekly') return;
+
+    const weekStart = moment.utc(summary.date, 'YYYY-MM-DD').startOf('week').format('YYYY-MM-DD');
+    const key = `${summary.userId}_${weekStart}`;
+    weeks.set(key, [...(weeks.get(key) || []), summary]);
+  });
+
+  weeks.forEach(weekSummaries => {
+    const { userId } = weekSummaries[0];
+    const overtime: OvertimePolicy = { ...policy.overtime, ...employeesById.get(userId)?.overtimePolicy };
+    const week = calculateWeeklyOvertime(weekSummaries, overtime.weeklyThresholdMinutes);
+
+    week.days.forEach(day => {
+      const summary = weekSummaries.find(weekSummary => weekSummary.date === day.date);
+      if (!summary) return;
+
+      Object.assign(summary, {
+        regularMinutes: day.regularMinutes,
+        overtimeMinutes: day.weeklyOvertimeMinutes,
+        weeklyOvertimeMinutes: day.weeklyOvertimeMinutes,
+        preShiftOvertimeMinutes: 0,
+        postShiftOvertimeMinutes: 0,
+        restDayOvertimeMinutes: 0,
+        overtimeNightDiffMinutes: 0,
+        restDayMinutes: 0,
+        overtimeMode: 'weekly'
+      });
+    });
+  });
+}
+
+/**
+ * List the fields that differ between two versions of a daily summary
+ * Older summaries are read through their hour strings.
+ *
+ * @param before - Existing summary, if any
+ * @param after - Rebuilt summary, if any
+ * @returns Changed fields with their old and new values
+ * @private
+ */
+function diffSummaries(before: DailySummary | undefined, after: DailySummary | undefined): SummaryChange['fields'] {
+  const changes: SummaryChange['fields'] = [];
+
+  SUMMARY_METRICS.forEach(key => {
+    const beforeMinutes = before ? toMetricMinutes(before, key) : null;
+    const afterMinutes = after ? toMetricMinutes(after, key) : null;
+    if ((beforeMinutes ?? 0) !== (afterMinutes ?? 0)) {
+      changes.push({ field: `${key}Minutes`, before: beforeMinutes, after: afterMinutes });
+    }
+  });
+
+  // Fields an older summary never stored are not reported as changed
+  SUMMARY_FIELDS.forEach(field => {
+    if (before?.[field] === undefined || !after || before[field] === after[field]) return;
+    changes.push({ field, before: before[field] ?? null, after: after[field] ?? null });
+  });
+
+  return changes;
+}
@@ -2,20 +2,208 @@
 //  * Shared TypeScript type definitions for the Time Tracking application
 //  */
 
+/**
+ * Stored roles are 'employee' or 'admin' ('user' on older accounts). Only an
+ * admin can change a role (see firestore.rules); signed-in employees are
+ * 'user' in the app.
+ */
+export type UserRole = 'user' | 'admin' | 'employee';
+
 export interface User {
   name: string;
   email: string;
-  role: 'user' | 'admin' | 'employee';
+  role: UserRole;
   position?: string;
   userId?: string;
   timezone?: string;
   schedule?: Schedule;
+  payRate?: PayRate;
+  overtimePolicy?: OvertimePolicy; // Overrides the company overtime policy (e.g. weekly OT)
+}
+
+export interface PayRate {
+  type: 'hourly' | 'daily';
+  amount: number;
+  hoursPerDay?: number; // Hours a daily rate covers (default 8)
+  currency?: string;
+}
+
+/**
+ * Pay multipliers applied to the hourly rate. Combination keys such as
+ * overtimeNightDiff cover minutes that earn more than one premium.
+ */
+export interface PayMultipliers {
+  regular?: number;
+  overtime?: number;
+  nightDiff?: number;
+  overtimeNightDiff?: number;
+  restDay?: number;
+  restDayOvertime?: number;
+  regularHoliday?: number;
+  specialHoliday?: number;
+}
+
+export interface PayLineItem {
+  code: keyof PayMultipliers;
+  label: string;
+  minutes: number;
+  hours: string;
+  multiplier: number;
+  amount: string;
+}
+
+export interface PayBreakdown {
+  hourlyRate: string;
+  currency: string;
+  lineItems: PayLineItem[];
+  grossPay: string;
 }
 
+/**
+ * Work schedule. On a flexible schedule, start and end are the band work may
+ * fall in (e.g. 07:00-19:00): late is measured from core.start, and undertime
+ * and overtime against requiredHours of work. A split shift lists its segments
+ * (e.g. 07:00-11:00 and 16:00-20:00) and each punch is matched to its segment.
+ */
 export interface Schedule {
+  type?: 'fixed' | 'flexible';
   start: string;
   end: string;
   timezone?: string;
+  requiredHours?: number;
+  core?: { start: string; end: string };
+  segments?: ScheduleSegment[];
+  weekly?: Partial<Record<Weekday, WeeklyScheduleDay>>;
+  breaks?: BreakRule[];
+  grace?: GracePolicy;
+}
+
+/**
+ * Grace periods for late arrival and early departure. Within the window the
+ * result counts as zero; past it, 'full' counts every minute and 'excess' only
+ * the minutes beyond the window.
+ */
+export interface GracePolicy {
+  lateMinutes?: number;
+  undertimeMinutes?: number;
+  mode?: 'full' | 'excess';
+}
+
+export type Weekday =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+export interface ScheduleSegment {
+  start: string;
+  end: string;
+}
+
+/**
+ * Weekday override: different shift hours or segments, or a rest day. Days
+ * without an override use the schedule's start and end.
+ */
+export type WeeklyScheduleDay = { start: string; end: string; segments?: ScheduleSegment[] } | { restDay: true };
+
+/**
+ * Unpaid break rule: a fixed window (e.g. 12:00-13:00 lunch) or an automatic
+ * deduction once a session reaches a minimum length
+ */
+export type BreakRule =
+  | { type: 'fixed'; start: string; end: string }
+  | { type: 'auto'; afterWorkedMinutes: number; durationMinutes: number };
+
+/**
+ * Company-wide calculation policy sent alongside the schedule
+ */
+export interface CalculationPolicy {
+  rounding?: {
+    punchIn?: RoundingRule;
+    punchOut?: RoundingRule;
+  };
+  nightDifferential?: NightDiffWindow;
+  holidays?: Holiday[];
+  overtime?: OvertimePolicy;
+}
+
+export interface OvertimePolicy {
+  restDayThresholdMinutes?: number; // Rest-day work past this is rest-day OT (default 480)
+  minimumMinutes?: number; // Shorter stretches of overtime are not counted
+  requireApproval?: boolean; // Overtime beyond the approved minutes is unauthorized
+  mode?: OvertimeMode;
+  weeklyThresholdMinutes?: number; // Weekly mode: minutes per workweek before OT (default 2400)
+}
+
+/**
+ * daily: overtime is time outside the day's shift
+ * weekly: overtime is time past the workweek's threshold, whatever the shift
+ */
+export type OvertimeMode = 'daily' | 'weekly';
+
+/**
+ * A workweek reclassified for weekly-threshold overtime
+ */
+export interface WeeklyOvertime {
+  thresholdMinutes: number;
+  totalWorkedHours: string;
+  totalWorkedMinutes: number;
+  regularHours: string;
+  regularMinutes: number;
+  weeklyOvertimeHours: string;
+  weeklyOvertimeMinutes: number;
+  days: Array<{
+    date: string;
+    totalWorkedHours: string;
+    totalWorkedMinutes: number;
+    regularHours: string;
+    regularMinutes: number;
+    weeklyOvertimeHours: string;
+    weeklyOvertimeMinutes: number;
+  }>;
+}
+
+/**
+ * Overtime pre-approved by an admin for one employee on one date.
+ * Stored with the id `${userId}_${date}`.
+ */
+export interface OvertimeApproval {
+  id?: string;
+  userId: string;
+  date: string;
+  approvedMinutes: number;
+  reason?: string;
+  approvedBy?: string;
+}
+
+/**
+ * What a session is calculated with: the user's schedule, the company policy
+ * with the user's overtime policy and the holidays the session touches, and
+ * the overtime approved for its business date
+ */
+export interface SessionCalculationInputs {
+  schedule: Schedule;
+  policy: CalculationPolicy;
+  approvedMinutes: number;
+}
+
+/**
+ * Night differential window in local hours; an end at or before the start wraps past midnight
+ */
+export interface NightDiffWindow {
+  startHour: number;
+  endHour: number;
+}
+
+/**
+ * Punch rounding rule; the interval should divide 60 (e.g. 5, 15 or 30 minutes)
+ */
+export interface RoundingRule {
+  interval: number;
+  direction?: 'nearest' | 'up' | 'down';
 }
 
 export interface TimeEntry {
@@ -35,8 +223,163 @@ export interface TimeMetrics {
   overtimeMinutes?: number;
   nightDiffHours: string;
   nightDiffMinutes?: number;
+  // Overtime categories never overlap and add up to overtimeMinutes;
+  // overtimeNightDiff is overtime of any kind inside the night window
+  preShiftOvertimeHours?: string;
+  preShiftOvertimeMinutes?: number;
+  postShiftOvertimeHours?: string;
+  postShiftOvertimeMinutes?: number;
+  restDayOvertimeHours?: string;
+  restDayOvertimeMinutes?: number;
+  overtimeNightDiffHours?: string;
+  overtimeNightDiffMinutes?: number;
+  // Extended time past the approved overtime; not part of overtimeMinutes
+  unauthorizedOvertimeHours?: string;
+  unauthorizedOvertimeMinutes?: number;
+  weeklyOvertimeHours?: string;
+  weeklyOvertimeMinutes?: number;
+  restDayHours?: string;
+  restDayMinutes?: number;
+  breakMinutes?: number;
+  regularHolidayHours?: string;
+  regularHolidayMinutes?: number;
+  specialHolidayHours?: string;
+  specialHolidayMinutes?: number;
+  holidayNames?: string[];
   lateMinutes: number;
   undertimeMinutes: number;
+  punchInTime?: string;
+  punchOutTime?: string;
+  rawPunchInTime?: string;
+  rawPunchOutTime?: string;
+  shiftStart?: string;
+  shiftEnd?: string;
+  businessDate?: string;
+  isOvernightShift?: boolean;
+  isRestDay?: boolean;
+  isFlexible?: boolean;
+  isSplitShift?: boolean;
+  segmentIndex?: number;
+}
+
+/**
+ * Day-level metrics across all of a user's sessions on one business date.
+ * Late comes from the first punch-in, undertime from the last punch-out, and
+ * gaps between sessions count as break time.
+ */
+export interface DailyMetrics extends TimeMetrics {
+  gapMinutes: number;
+  sessionCount: number;
+  firstPunchIn: string;
+  lastPunchOut: string;
+  sessions: TimeMetrics[];
+}
+
+/**
+ * Step-by-step breakdown of one session's calculation, used to explain the
+ * numbers when an employee disputes them. Times are ISO strings.
+ */
+export interface CalculationTrace {
+  metrics: TimeMetrics;
+  timezone: string;
+  punches: {
+    rawPunchIn: string;
+    rawPunchOut: string;
+    punchIn: string;
+    punchOut: string;
+    punchInRounding: RoundingTrace | null;
+    punchOutRounding: RoundingTrace | null;
+  };
+  shift: TraceInterval & {
+    businessDate: string;
+    isOvernightShift: boolean;
+    isRestDay: boolean;
+    isFlexible: boolean;
+    isSplitShift: boolean;
+    segmentIndex: number;
+    laterSegments: TraceInterval[]; // Later split-shift segments the session ran into
+    lateReference: string; // Shift start, or core start on a flexible schedule
+    requiredMinutes: number | null; // Flexible schedules only
+    restDayThresholdMinutes: number | null; // Rest days only
+  };
+  grace: {
+    late: GraceTrace;
+    undertime: GraceTrace;
+  };
+  breaks: {
+    fixed: Array<TraceInterval & { minutes: number }>;
+    autoDeductionMinutes: number;
+    totalMinutes: number;
+  };
+  nightDifferential: {
+    window: NightDiffWindow;
+    intervals: Array<TraceInterval & { minutes: number }>;
+  };
+  overtime: {
+    minimumMinutes: number;
+    approvedMinutes: number | null; // null when approval is not required
+    stretches: OvertimeStretchTrace[];
+  };
+  holidays: Array<{ name: string; type: HolidayType; minutes: number }>;
+  timeline: TimelineSegment[];
+}
+
+export interface TraceInterval {
+  start: string;
+  end: string;
+}
+
+export interface RoundingTrace {
+  interval: number;
+  direction: 'nearest' | 'up' | 'down';
+  adjustedMinutes: number; // Minutes the punch moved; negative when moved earlier
+}
+
+export interface GraceTrace {
+  rawMinutes: number;
+  graceMinutes: number;
+  mode: 'full' | 'excess';
+  reportedMinutes: number;
+}
+
+export interface OvertimeStretchTrace extends TraceInterval {
+  category: 'preShift' | 'postShift' | 'restDay';
+  minutes: number;
+  authorizedMinutes: number;
+  unauthorizedMinutes: number;
+  nightMinutes: number;
+  belowMinimum: boolean; // Too short to count as overtime
+}
+
+/**
+ * The rule that paid (or did not pay) a stretch of the session
+ */
+export type TimelineRule =
+  | 'regular'
+  | 'break'
+  | 'preShiftOvertime'
+  | 'postShiftOvertime'
+  | 'restDay'
+  | 'restDayOvertime'
+  | 'overtimeNightDiff'
+  | 'belowMinimumOvertime'
+  | 'unauthorizedOvertime';
+
+export interface TimelineSegment extends TraceInterval {
+  minutes: number;
+  rule: TimelineRule;
+  nightDiff: boolean; // Inside the night differential window
+  holiday?: string;
+}
+
+export type DayStatus = 'present' | 'absent' | 'rest_day' | 'rest_day_work';
+
+export interface DayClassification {
+  date: string;
+  weekday: Weekday;
+  isRestDay: boolean;
+  status: DayStatus;
+  scheduledMinutes: number;
 }
 
 export interface Punch {
@@ -45,20 +388,54 @@ export interface Punch {
   date: string;
   punchIn: string;
   punchOut: string;
+  roundedPunchIn?: string;
+  roundedPunchOut?: string;
   status: PunchStatus;
   totalHours: string;
 }
 
-export type PunchStatus = 'regular' | 'OT' | 'ND' | 'late' | 'undertime';
+/**
+ * A deleted (voided) punch that can be restored
+ */
+export interface DeletedPunch {
+  id: string;
+  employeeName: string;
+  date: string;
+  punchIn: string;
+  punchOut: string;
+  totalHours: string;
+  deletedAt: string;
+  deletedBy: string;
+  reason: string;
+}
+
+export type PunchStatus = 'regular' | 'OT' | 'ND' | 'late' | 'undertime' | 'rest_day' | 'unauthorized_ot' | 'pending';
+
+export type AdminTab = 'punches' | 'deleted' | 'daily' | 'weekly' | 'holidays' | 'users';
+
+export type HolidayType = 'regular' | 'special';
+
+export interface Holiday {
+  id?: string;
+  date: string;
+  name: string;
+  type: HolidayType;
+}
 
 export interface DailyReport {
+  userId?: string;
   employeeName: string;
+  status?: DayStatus;
   regular: string;
   overtime: string;
+  unauthorizedOvertime?: string;
   nightDiff: string;
+  regularHoliday: string;
+  specialHoliday: string;
   late: string;
   undertime: string;
   total: string;
+  grossPay?: string;
 }
 
 export interface WeeklyReport {
@@ -66,38 +443,294 @@ export interface WeeklyReport {
   regularHours: string;
   overtimeHours: string;
   nightDiffHours: string;
+  regularHolidayHours: string;
+  specialHolidayHours: string;
   lateMinutes: string;
   undertimeMinutes: string;
   totalHours: string;
+  weeklyOvertimeHours?: string;
+  overtimeMode?: OvertimeMode;
+  grossPay?: string;
 }
 
+/**
+ * open: punched in, not yet punched out; a user has at most one
+ * closed: punched out; the only state that counts toward pay and summaries
+ * voided: deleted by an admin (or, before punch-ins resumed the open session,
+ * superseded by a later punch-in); kept for the record, and restorable if it
+ * has a punch out
+ */
+export type SessionStatus = 'open' | 'closed' | 'voided';
+
+/**
+ * One work session, from punch in to punch out, as stored in `sessions`
+ */
 export interface AttendanceRecord {
+  id: string;
   userId: string;
   userEmail: string;
   userName: string;
-  punchIn: any;
-  punchOut?: any;
-  type: 'punch_in' | 'punch_out' | 'completed';
-  timestamp: any;
+  status: SessionStatus;
+  punchIn: Date;
+  punchOut: Date | null;
+  date: string; // Business date; overnight shifts belong to the day they started
+  duration: number | null; // Seconds between punch in and punch out, once closed
+  metrics: TimeMetrics | null;
+  calculationStatus?: CalculationStatus;
+  calculationError?: string; // Why the last calculation attempt failed
+  calculationAttempts?: number; // Failed retries while pending
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  voidedAt: Date | null;
+  voidedBy: AuditActor | null; // Admin who deleted it; null when voided by a punch-in
+  voidReason: string | null;
+}
+
+/**
+ * A session that has been punched out
+ */
+export type ClosedAttendanceRecord = AttendanceRecord & { status: 'closed'; punchOut: Date };
+
+export type AuditAction = 'edit' | 'delete' | 'restore';
+
+/**
+ * The admin who made an audited change
+ */
+export interface AuditActor {
+  userId: string | null;
+  email: string;
+  name: string;
+}
+
+/**
+ * Who is changing a punch, and why; the reason is required
+ */
+export interface AuditDetails {
+  actor: AuditActor;
+  reason: string;
+}
+
+/**
+ * A punch as it was before or after an audited change
+ */
+export interface AuditSnapshot {
+  userId: string;
   date: string;
-  duration?: number;
-  metrics?: TimeMetrics;
-  relatedSessionId?: string;
+  status: SessionStatus;
+  punchIn: string; // ISO timestamp
+  punchOut: string | null;
+  metrics: TimeMetrics | null;
+}
+
+/**
+ * One entry in the append-only `auditLog` collection
+ */
+export interface AuditLogEntry extends AuditDetails {
+  id: string;
+  recordId: string; // Session the change was made to
+  action: AuditAction;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+  createdAt: Date | null;
+}
+
+/**
+ * pending: the punch-out was saved without metrics because the calculation
+ * failed; the reconciler fills them in once the API is reachable again
+ */
+export type CalculationStatus = 'calculated' | 'pending';
+
+/**
+ * A completed session still waiting for its metrics
+ */
+export interface PendingCalculation {
+  id: string;
+  userId: string;
+  userName: string;
+  date: string;
+  punchIn: Date;
+  punchOut: Date;
+  calculationError?: string;
+  calculationAttempts: number;
 }
 
 export interface DailySummary {
   userId: string;
   date: string;
-  totalWorkedHours: string;
-  regularHours: string;
-  overtimeHours: string;
-  nightDiffHours: string;
+  totalWorkedMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+  nightDiffMinutes: number;
+  preShiftOvertimeMinutes: number;
+  postShiftOvertimeMinutes: number;
+  restDayOvertimeMinutes: number;
+  overtimeNightDiffMinutes: number;
+  unauthorizedOvertimeMinutes: number;
+  weeklyOvertimeMinutes: number;
+  overtimeMode?: OvertimeMode;
+  restDayMinutes: number;
+  regularHolidayMinutes: number;
+  specialHolidayMinutes: number;
   totalLateMinutes: number;
   totalUndertimeMinutes: number;
+  breakMinutes?: number;
+  sessionCount?: number;
+  firstPunchIn?: string;
+  lastPunchOut?: string;
+  // Attendance ID -> punches of each session the summary was calculated from
+  sessions?: Record<string, string>;
+  // Summaries saved before minutes were stored have hour strings instead
+  totalWorkedHours?: string;
+  regularHours?: string;
+  overtimeHours?: string;
+  nightDiffHours?: string;
+  weeklyOvertimeHours?: string;
   createdAt?: any;
   lastUpdated?: any;
 }
 
+/**
+ * One summary created, changed or removed by a rebuild
+ */
+export interface SummaryChange {
+  userId: string;
+  date: string;
+  action: 'created' | 'updated' | 'deleted';
+  fields: Array<{ field: string; before: number | string | null; after: number | string | null }>;
+}
+
+export interface SummaryRebuildReport {
+  sessionCount: number; // Completed sessions the summaries were rebuilt from
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  changes: SummaryChange[];
+  errors: Array<{ userId: string; date: string; error: string }>; // Days left as they were
+}
+
+/**
+ * Where the app stores its data:
+ * firestore: the Firebase project
+ * memory: in memory only, empty on every reload (demos and tests)
+ * local: in memory, saved to the browser's localStorage (offline development)
+ */
+export type StorageAdapter = 'firestore' | 'memory' | 'local';
+
+/**
+ * Filters for finding sessions; every filter given must match
+ */
+export interface SessionQuery {
+  status?: SessionStatus;
+  userId?: string;
+  date?: string;
+  startDate?: string; // Inclusive range of business dates
+  endDate?: string;
+  calculationStatus?: CalculationStatus;
+}
+
+/**
+ * Filters for finding records of one user and an inclusive range of dates
+ */
+export interface DateRangeQuery {
+  userId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * The page of a cursor-paginated query to fetch
+ * The cursor is the ID of the last item on the previous page; leave it out
+ * for the first page.
+ */
+export interface PageRequest {
+  pageSize: number;
+  cursor?: string | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // null on the last page
+}
+
+export interface NewSession {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  date: string;
+}
+
+export interface SessionChanges {
+  punchIn: Date;
+  punchOut: Date;
+  date: string;
+  metrics: TimeMetrics;
+}
+
+/**
+ * User profiles, and the accounts employees sign in with
+ * Account errors carry an `auth/...` code, as Firebase Auth's do.
+ */
+export interface UserRepository {
+  getUser(userId: string): Promise<User | null>;
+  getEmployees(): Promise<User[]>;
+  getUsers(): Promise<User[]>; // Admins included
+  saveUser(userId: string, userData: Partial<User>): Promise<void>;
+  setUserRole(userId: string, role: UserRole): Promise<void>;
+  createAccount(email: string, password: string): Promise<string>; // Returns the new user ID
+  signIn(email: string, password: string): Promise<string>; // Returns the user ID
+  getIdToken(): Promise<string | null>; // For API calls that read stored data; null when the data stays in the browser
+}
+
+/**
+ * Work sessions and the audit log of admin changes to them
+ * Changes made with AuditDetails are logged in the same write as the change.
+ */
+export interface AttendanceRepository {
+  openSession(session: NewSession): Promise<string>; // Fails if the user has an open session; returns the new ID
+  closeSession(sessionId: string): Promise<void>; // Punched out now, and pending until its metrics are saved
+  getSession(sessionId: string): Promise<AttendanceRecord | null>;
+  findSessions(filter: SessionQuery): Promise<AttendanceRecord[]>;
+  findSessionsPage(filter: SessionQuery, page: PageRequest, direction: SortDirection): Promise<Page<AttendanceRecord>>; // Ordered by punch in
+  saveSessionMetrics(sessionId: string, date: string, duration: number, metrics: TimeMetrics): Promise<void>;
+  recordCalculationFailure(sessionId: string, calculationError: string): Promise<void>; // Counts a failed retry
+  updateSession(sessionId: string, changes: SessionChanges, audit: AuditDetails): Promise<void>;
+  voidSession(sessionId: string, audit: AuditDetails): Promise<void>;
+  restoreSession(sessionId: string, audit: AuditDetails): Promise<void>;
+  getAuditLog(recordId: string): Promise<AuditLogEntry[]>; // Newest first
+}
+
+/**
+ * Daily summaries
+ * Writes throw a StaleSummaryError, writing nothing, when the sessions or
+ * summaries they were calculated from changed in the meantime.
+ */
+export interface SummaryRepository {
+  getDailySummary(userId: string, date: string): Promise<DailySummary | null>;
+  findDailySummaries(filter: DateRangeQuery): Promise<DailySummary[]>;
+  findDailySummariesPage(filter: DateRangeQuery, page: PageRequest): Promise<Page<DailySummary>>; // Ordered by user, then date
+  saveDailySummary(summary: DailySummary): Promise<void>;
+  applyWeeklyOvertime(userId: string, week: WeeklyOvertime): Promise<void>;
+  deleteDailySummary(userId: string, date: string): Promise<void>;
+}
+
+/**
+ * Holidays and overtime approvals
+ */
+export interface CalendarRepository {
+  getHolidays(startDate: string, endDate: string): Promise<Holiday[]>; // Ordered by date
+  createHoliday(holiday: Holiday): Promise<string>;
+  updateHoliday(holidayId: string, holiday: Holiday): Promise<void>;
+  deleteHoliday(holidayId: string): Promise<void>;
+  getOvertimeApproval(userId: string, date: string): Promise<OvertimeApproval | null>;
+  findOvertimeApprovals(filter: DateRangeQuery): Promise<OvertimeApproval[]>;
+  saveOvertimeApproval(approval: OvertimeApproval): Promise<void>;
+}
+
+export type Repository = UserRepository & AttendanceRepository & SummaryRepository & CalendarRepository;
+
 export interface FormData {
   name?: string;
   email: string;
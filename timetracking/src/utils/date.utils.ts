@@ -113,6 +113,18 @@ export function getWeekEnd(date: Date): Date {
   return weekEnd;
 }
 
+/**
+ * Get the seven dates (YYYY-MM-DD) of the Sunday-Saturday week containing a date
+ */
+export function getWeekDatesISO(isoDate: string): string[] {
+  const weekStart = getWeekStart(new Date(`${isoDate}T00:00:00`));
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(weekStart);
+    day.setDate(weekStart.getDate() + index);
+    return formatLocalDateISO(day);
+  });
+}
+
 /**
  * Check if two dates are on the same day
  */
@@ -129,10 +141,17 @@ export function isSameDay(date1: Date, date2: Date): boolean {
  * Ensures consistent date formatting across the app
  */
 export function getTodayISO(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
+  return formatLocalDateISO(new Date());
+}
+
+/**
+ * Format date to ISO date string (YYYY-MM-DD) in the local timezone
+ * Unlike formatDateISO, late-evening and early-morning times keep their local date
+ */
+export function formatLocalDateISO(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
   return `${year}-${month}-${day}`;
 }
 
@@ -0,0 +1,64 @@
+/**
+ * Time Metrics Utility Functions
+ */
+
+import { toMetricMinutes } from '../shared/timeCalculator';
+import type { TimeMetrics } from '../types';
+
+/**
+ * Build the metrics stored on an attendance record
+ * Firestore rejects undefined, so optional fields get their zero value
+ */
+export function toStoredMetrics(metrics: TimeMetrics) {
+  return {
+    totalWorkedHours: metrics.totalWorkedHours,
+    totalWorkedMinutes: metrics.totalWorkedMinutes ?? 0,
+    regularHours: metrics.regularHours,
+    regularMinutes: metrics.regularMinutes ?? 0,
+    overtimeHours: metrics.overtimeHours,
+    overtimeMinutes: metrics.overtimeMinutes ?? 0,
+    nightDiffHours: metrics.nightDiffHours,
+    nightDiffMinutes: metrics.nightDiffMinutes ?? 0,
+    preShiftOvertimeHours: metrics.preShiftOvertimeHours ?? '0.00',
+    preShiftOvertimeMinutes: metrics.preShiftOvertimeMinutes ?? 0,
+    postShiftOvertimeHours: metrics.postShiftOvertimeHours ?? '0.00',
+    postShiftOvertimeMinutes: metrics.postShiftOvertimeMinutes ?? 0,
+    restDayOvertimeHours: metrics.restDayOvertimeHours ?? '0.00',
+    restDayOvertimeMinutes: metrics.restDayOvertimeMinutes ?? 0,
+    overtimeNightDiffHours: metrics.overtimeNightDiffHours ?? '0.00',
+    overtimeNightDiffMinutes: metrics.overtimeNightDiffMinutes ?? 0,
+    unauthorizedOvertimeHours: metrics.unauthorizedOvertimeHours ?? '0.00',
+    unauthorizedOvertimeMinutes: metrics.unauthorizedOvertimeMinutes ?? 0,
+    restDayHours: metrics.restDayHours ?? '0.00',
+    restDayMinutes: metrics.restDayMinutes ?? 0,
+    isRestDay: metrics.isRestDay ?? false,
+    breakMinutes: metrics.breakMinutes ?? 0,
+    regularHolidayHours: metrics.regularHolidayHours ?? '0.00',
+    regularHolidayMinutes: metrics.regularHolidayMinutes ?? 0,
+    specialHolidayHours: metrics.specialHolidayHours ?? '0.00',
+    specialHolidayMinutes: metrics.specialHolidayMinutes ?? 0,
+    holidayNames: metrics.holidayNames ?? [],
+    lateMinutes: metrics.lateMinutes,
+    undertimeMinutes: metrics.undertimeMinutes,
+    punchInTime: metrics.punchInTime ?? null,
+    punchOutTime: metrics.punchOutTime ?? null,
+    rawPunchInTime: metrics.rawPunchInTime ?? null,
+    rawPunchOutTime: metrics.rawPunchOutTime ?? null
+  };
+}
+
+/**
+ * Format a metric as hours (e.g. "8.50") from its minutes
+ * Daily summaries saved before they stored minutes fall back to their hour strings
+ */
+export function getMetricHours(metrics: object, key: string): string {
+  return (toMetricMinutes(metrics, key) / 60).toFixed(2);
+}
+
+/**
+ * Add up a metric across several metrics or daily summaries, formatted as hours
+ */
+export function sumMetricHours(metricsList: object[], key: string): string {
+  const minutes = metricsList.reduce<number>((total, metrics) => total + toMetricMinutes(metrics, key), 0);
+  return (minutes / 60).toFixed(2);
+}
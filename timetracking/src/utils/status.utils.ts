@@ -19,6 +19,12 @@ export function getStatusColor(status: PunchStatus): string {
       return 'bg-orange-100 text-orange-700 border-orange-200';
     case 'undertime':
       return 'bg-red-100 text-red-700 border-red-200';
+    case 'rest_day':
+      return 'bg-teal-100 text-teal-700 border-teal-200';
+    case 'unauthorized_ot':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'pending':
+      return 'bg-gray-100 text-gray-500 border-gray-300 border-dashed';
     default:
       return 'bg-gray-100 text-gray-700 border-gray-200';
   }
@@ -33,6 +39,12 @@ export function getStatusLabel(status: PunchStatus): string {
       return 'Overtime';
     case 'ND':
       return 'Night Diff';
+    case 'rest_day':
+      return 'Rest Day';
+    case 'unauthorized_ot':
+      return 'Unauthorized OT';
+    case 'pending':
+      return 'Pending Calc';
     default:
       return status.charAt(0).toUpperCase() + status.slice(1);
   }
@@ -40,13 +52,20 @@ export function getStatusLabel(status: PunchStatus): string {
 
 /**
  * Determine punch status based on metrics
+ * Late and undertime minutes are already grace-adjusted by the calculator, so a
+ * punch inside the schedule's grace window shows as regular. Unapproved
+ * extended time is flagged ahead of approved overtime so admins notice it
  */
 export function determinePunchStatus(
   overtimeHours: number,
   nightDiffHours: number,
   lateMinutes: number,
-  undertimeMinutes: number
+  undertimeMinutes: number,
+  isRestDay: boolean = false,
+  unauthorizedOvertimeMinutes: number = 0
 ): PunchStatus {
+  if (isRestDay) return 'rest_day';
+  if (unauthorizedOvertimeMinutes > 0) return 'unauthorized_ot';
   if (overtimeHours > 0) return 'OT';
   if (nightDiffHours > 0) return 'ND';
   if (lateMinutes > 0) return 'late';